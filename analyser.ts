@@ -2,6 +2,12 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+export interface AnalyserOptions {
+  /** Power of two; 32 gives 16 coarse bins, 1024+ resolves formants. */
+  fftSize?: number;
+  smoothingTimeConstant?: number;
+}
+
 /**
  * Analyser class for live audio visualisation.
  */
@@ -10,14 +16,22 @@ export class Analyser {
   private bufferLength = 0;
   private dataArray: Uint8Array;
 
-  constructor(node: AudioNode) {
+  constructor(private node: AudioNode, {fftSize = 32, smoothingTimeConstant}: AnalyserOptions = {}) {
     this.analyser = node.context.createAnalyser();
-    this.analyser.fftSize = 32;
+    this.analyser.fftSize = fftSize;
+    if (smoothingTimeConstant !== undefined) {
+      this.analyser.smoothingTimeConstant = smoothingTimeConstant;
+    }
     this.bufferLength = this.analyser.frequencyBinCount;
     this.dataArray = new Uint8Array(this.bufferLength);
     node.connect(this.analyser);
   }
 
+  /** Stop listening to the node. */
+  disconnect() {
+    this.node.disconnect(this.analyser);
+  }
+
   update() {
     this.analyser.getByteFrequencyData(this.dataArray);
   }
@@ -25,4 +39,19 @@ export class Analyser {
   get data() {
     return this.dataArray;
   }
+
+  /** Width of one frequency bin in Hz. */
+  get binHz() {
+    return this.analyser.context.sampleRate / this.analyser.fftSize;
+  }
+
+  /** Mean level (0..1) of the bins covering `fromHz`..`toHz`. */
+  band(fromHz: number, toHz: number) {
+    const from = Math.max(0, Math.floor(fromHz / this.binHz));
+    const to = Math.min(this.bufferLength, Math.ceil(toHz / this.binHz));
+    if (to <= from) return 0;
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += this.dataArray[i];
+    return sum / ((to - from) * 255);
+  }
 }
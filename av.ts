@@ -6,9 +6,62 @@ import {EffectComposer} from 'three/addons/postprocessing/EffectComposer.js';
 import {RenderPass} from 'three/addons/postprocessing/RenderPass.js';
 import {UnrealBloomPass} from 'three/addons/postprocessing/UnrealBloomPass.js';
 import {Analyser} from './analyser';
+import {BeatDetector} from './beat';
+import {Emotion, ExpressionBlender, MorphWeights} from './expression';
+import {LipSync, VISEMES} from './lipsync';
+import {GestureLayer, GestureOptions} from './gestures';
+import {detectRig, RIG_PROFILES, RigBinding} from './rig';
+import {FrameGovernor, isQualityLevel, QualityController} from './quality';
+import type {VoiceActivityDetector} from './vad';
+
+export type AvatarMode = 'idle' | 'listening' | 'thinking' | 'speak' | 'whisper' | 'dance';
+
+/** How much of the sway, bounce and dance is left with reduced motion. */
+const REDUCED_MOTION = 0.2;
+const BLOOM_STRENGTH = 0.6;
+
+/** Face the avatar pulls in modes that aren't driven by audio. */
+const MODE_FACE: Partial<Record<AvatarMode, MorphWeights>> = {
+  listening: {eyeWideLeft: 0.2, eyeWideRight: 0.2, browInnerUp: 0.15},
+  thinking: {
+    eyeLookUpLeft: 0.5,
+    eyeLookUpRight: 0.5,
+    eyeLookOutLeft: 0.35,
+    eyeLookInRight: 0.35,
+    browInnerUp: 0.3,
+    mouthPressLeft: 0.25,
+    mouthPressRight: 0.25,
+  },
+};
+const MODE_FACE_MORPHS = [...new Set(Object.values(MODE_FACE).flatMap((f) => Object.keys(f)))];
+const VISEME_CONTROLS = VISEMES.map((v) => `viseme_${v}`);
+/** Controls the mouth code sets every frame; the face overlay only adds to them. */
+const MOUTH_CONTROLS = ['jaw', 'smile', ...VISEME_CONTROLS];
+
+/** Free the GPU buffers, textures and skeletons of a model that's going away. */
+function disposeObject(root: THREE.Object3D) {
+  root.traverse((c: any) => {
+    if (!c.isMesh) return;
+    c.geometry?.dispose();
+    const materials: THREE.Material[] = Array.isArray(c.material) ? c.material : [c.material];
+    for (const material of materials.filter(Boolean)) {
+      for (const value of Object.values(material) as THREE.Texture[]) {
+        if (value?.isTexture) value.dispose();
+      }
+      material.dispose();
+    }
+    c.skeleton?.dispose();
+  });
+}
 
-type AvatarMode = 'idle' | 'speak' | 'whisper' | 'dance';
-
+/**
+ * Renders only while on screen and the tab is visible, at no more than
+ * `max-fps`, and lowers its quality on devices that can't keep up.
+ *
+ * @fires avatar-progress - `{src, loaded, total}` while a model downloads.
+ * @fires avatar-loaded - `{src, rig}` once a model is shown.
+ * @fires avatar-error - `{src, error}` if a model fails to load.
+ */
 @customElement('gdm-live-audio-avatar')
 export class GdmLiveAudioAvatar extends LitElement {
   /* ---------------------- Audio IO ---------------------- */
@@ -19,6 +72,8 @@ export class GdmLiveAudioAvatar extends LitElement {
   set outputNode(node: AudioNode) {
     this._outputNode = node;
     this.outputAnalyser = new Analyser(this._outputNode);
+    this.lipSync = new LipSync(this._outputNode, {fftSize: this.lipSyncFftSize});
+    this.beats = new BeatDetector(this._outputNode);
   }
   get outputNode() { return this._outputNode; }
 
@@ -31,29 +86,95 @@ export class GdmLiveAudioAvatar extends LitElement {
 
   private inputAnalyser!: Analyser;   // mic (user)
   private outputAnalyser!: Analyser;  // TTS (assistant)
+  private lipSync?: LipSync;
+  /** Tempo of the assistant's audio, for dancing to. */
+  private beats?: BeatDetector;
+
+  /** FFT size of the lip-sync analyser; read when `outputNode` is set. */
+  @property({type: Number, attribute: 'lipsync-fft-size'}) lipSyncFftSize = 1024;
 
   /* ---------------------- Scene ---------------------- */
   private scene!: THREE.Scene;
   private camera!: THREE.PerspectiveCamera;
   private renderer!: THREE.WebGLRenderer;
   private composer!: EffectComposer;
+  private bloomPass!: UnrealBloomPass;
   private canvas!: HTMLCanvasElement;
 
-  private avatar!: THREE.Group;
+  private avatar?: THREE.Group;
   private clock = new THREE.Clock();
 
-  /* Cached references (optional; we’ll still traverse safely) */
-  private headMesh?: THREE.Mesh;
-  private teethMesh?: THREE.Mesh;
+  /** Logical controls resolved against the loaded model. */
+  private rig?: RigBinding;
+  /** Whether the model has Oculus visemes; else we drive the jaw. */
+  private hasVisemes = false;
+  // Some rigs open the jaw with a viseme morph; lip sync then owns it.
+  private jawIsViseme = false;
+  // Only the latest requested model may replace the current one.
+  private loadToken = 0;
+  private requestedSrc = '';
+
+  /** Clip-based gestures, layered over the procedural motion below. */
+  private gestures?: GestureLayer;
+  private head?: THREE.Object3D;
+  private leftEar?: THREE.Object3D;
+  private rightEar?: THREE.Object3D;
+  private headRest = new THREE.Quaternion();
+  private headSway = new THREE.Euler();
+  private swayQuat = new THREE.Quaternion();
 
   /* ---------------------- State ---------------------- */
   @state() private _mode: AvatarMode = 'idle';
   @property({type: String}) set mode(m: AvatarMode) {
-    console.log('Setting mode to:', m);
     this._mode = m;
   }
   get mode() { return this._mode; }
 
+  /** GLB model to show; can be changed at any time. */
+  @property({attribute: 'avatar-src'}) avatarSrc = '/avatar.glb';
+
+  /** Rig profile name (`rpm`, `arkit`, `vrm`), or `auto` to detect it. */
+  @property({attribute: 'rig'}) rigName = 'auto';
+
+  /** Space-separated GLBs whose animation clips become extra gestures. */
+  @property({attribute: 'gestures-src'}) gesturesSrc = '';
+
+  /** Point the camera at each model as it loads. */
+  @property({type: Boolean, attribute: 'auto-frame'}) autoFrame = true;
+
+  /** Scene colour behind the model; `transparent` shows the page through. */
+  @property() background = '#151515';
+
+  /**
+   * Dampen sway, dancing and bloom. Follows the system's
+   * `prefers-reduced-motion` setting unless set explicitly.
+   */
+  @property({type: Boolean, attribute: 'reduced-motion'}) reducedMotion =
+    window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+  private motionQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
+  private onMotionQuery = (e: MediaQueryListEvent) => (this.reducedMotion = e.matches);
+
+  /* ---------------------- Performance ---------------------- */
+  /** Frame rate cap. */
+  @property({type: Number, attribute: 'max-fps'}) maxFps = 60;
+  /** Frame rate cap while idle, when little moves. */
+  @property({type: Number, attribute: 'idle-fps'}) idleFps = 30;
+  /** `high`, `medium` or `low` to fix the render quality; `auto` adapts it. */
+  @property() quality = 'auto';
+  /** Show the frame rate and quality tier over the canvas. */
+  @property({type: Boolean}) debug = false;
+
+  private governor = new FrameGovernor();
+  private qualityControl = new QualityController();
+  private frame = 0;
+  private running = false;
+  private onScreen = true;
+  private observer?: IntersectionObserver;
+  private onVisibility = () => this.updateRunning();
+  private resizeObserver = new ResizeObserver(() => this.onResize());
+  private statsAt = 0;
+  @state() private stats = '';
+
   // smoothed audio levels (EMA)
   private outLevel = 0;   // assistant
   private inLevel = 0;    // mic
@@ -62,30 +183,102 @@ export class GdmLiveAudioAvatar extends LitElement {
   private nextBlinkAt = 0;
   private blinkT = 0;
 
-  // dance state
-  private dancePhase = 0;
+  // modes that outlast a reply, until stopped
   private isDancing = false;
+  private isWhispering = false;
+
+  // listening / thinking
+  /** Mic level (0..1) above which an idle avatar starts listening. */
+  @property({type: Number, attribute: 'listen-threshold'}) listenThreshold = 0.25;
+  /** Client VAD; when set it decides when the user speaks instead of the threshold. */
+  @property({attribute: false}) vad?: VoiceActivityDetector;
+  private quietFor = 0;
+  private thinkingFor = 0;
+
+  // facial expression
+  private expressions = new ExpressionBlender();
+  private modeFace: MorphWeights = Object.fromEntries(MODE_FACE_MORPHS.map((m) => [m, 0]));
 
   static styles = css`
+    :host {
+      display: block;
+      position: absolute;
+      inset: 0;
+    }
+
     canvas {
       width: 100% !important;
       height: 100% !important;
       position: absolute;
       inset: 0;
     }
+
+    .stats {
+      position: absolute;
+      top: 8px;
+      left: 8px;
+      padding: 4px 8px;
+      border-radius: 4px;
+      background: rgba(0, 0, 0, 0.6);
+      color: #8f8;
+      font: 12px monospace;
+      pointer-events: none;
+      z-index: 1;
+    }
   `;
 
   /* ---------------------- Lifecycle ---------------------- */
   protected firstUpdated() {
     this.canvas = this.shadowRoot!.querySelector('canvas') as HTMLCanvasElement;
     this.initThree();
-    this.loadAvatar('/avatar.glb'); 
-    this.animate();
+    this.loadAvatar(this.avatarSrc);
+    this.observer = new IntersectionObserver(([entry]) => {
+      this.onScreen = entry.isIntersecting;
+      this.updateRunning();
+    });
+    this.observer.observe(this.canvas);
+    this.resizeObserver.observe(this);
+    this.updateRunning();
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.motionQuery.addEventListener('change', this.onMotionQuery);
+    document.addEventListener('visibilitychange', this.onVisibility);
+    if (this.canvas) {
+      this.observer?.observe(this.canvas);
+      this.resizeObserver.observe(this);
+    }
+    this.updateRunning();
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.motionQuery.removeEventListener('change', this.onMotionQuery);
+    document.removeEventListener('visibilitychange', this.onVisibility);
+    this.observer?.disconnect();
+    this.resizeObserver.disconnect();
+    this.updateRunning();
+  }
+
+  protected updated(changed: Map<string, unknown>) {
+    if (changed.has('avatarSrc') && this.scene && this.avatarSrc !== this.requestedSrc) {
+      this.loadAvatar(this.avatarSrc);
+    }
+    if (changed.has('reducedMotion') && this.bloomPass) {
+      this.bloomPass.strength = BLOOM_STRENGTH * (this.reducedMotion ? REDUCED_MOTION : 1);
+    }
+    if (changed.has('background') && this.scene) {
+      this.scene.background = this.backgroundColor();
+    }
+    if (changed.has('quality')) {
+      this.qualityControl.pinned = isQualityLevel(this.quality) ? this.quality : undefined;
+    }
   }
 
   private initThree() {
     this.scene = new THREE.Scene();
-    this.scene.background = new THREE.Color(0x151515);
+    this.scene.background = this.backgroundColor();
 
     this.camera = new THREE.PerspectiveCamera(
       50,
@@ -94,15 +287,19 @@ export class GdmLiveAudioAvatar extends LitElement {
     );
     this.camera.position.set(0, 1.55, 2.6);
 
-    this.renderer = new THREE.WebGLRenderer({canvas: this.canvas, antialias: true, alpha: true});
-    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+    // Antialiasing is done on the composer's targets, so each tier can choose.
+    this.renderer = new THREE.WebGLRenderer({canvas: this.canvas, antialias: false, alpha: true});
     this.renderer.setSize(this.clientWidth || window.innerWidth, this.clientHeight || window.innerHeight);
 
     const renderPass = new RenderPass(this.scene, this.camera);
-    const bloomPass = new UnrealBloomPass(new THREE.Vector2(this.renderer.domElement.width, this.renderer.domElement.height), 0.6, 0.4, 0.85);
+    this.bloomPass = new UnrealBloomPass(
+      new THREE.Vector2(this.renderer.domElement.width, this.renderer.domElement.height),
+      BLOOM_STRENGTH * (this.reducedMotion ? REDUCED_MOTION : 1), 0.4, 0.85);
     this.composer = new EffectComposer(this.renderer);
     this.composer.addPass(renderPass);
-    this.composer.addPass(bloomPass);
+    this.composer.addPass(this.bloomPass);
+    this.applyQuality();
+    this.qualityControl.addEventListener('change', () => this.applyQuality());
 
     const ambient = new THREE.AmbientLight(0xffffff, 0.6);
     this.scene.add(ambient);
@@ -113,47 +310,201 @@ export class GdmLiveAudioAvatar extends LitElement {
     const rim = new THREE.DirectionalLight(0x88aaff, 0.6);
     rim.position.set(-3, 4, -2);
     this.scene.add(rim);
+  }
 
-    window.addEventListener('resize', () => this.onResize());
+  private backgroundColor() {
+    return this.background === 'transparent' ? null : new THREE.Color(this.background);
   }
 
+  /** Load `url`; the current model stays until the new one is ready. */
   private loadAvatar(url: string) {
+    const token = ++this.loadToken;
+    this.requestedSrc = url;
+    const current = () => token === this.loadToken;
     const loader = new GLTFLoader();
-    loader.load(url, (gltf) => {
-      this.avatar = gltf.scene;
-      this.avatar.position.set(0, 0, 0);
-      this.avatar.traverse((c: any) => {
-        if (c.isMesh) {
-          c.castShadow = true;
-          c.receiveShadow = true;
-          if (c.name === 'Wolf3D_Head') this.headMesh = c as THREE.Mesh;
-          if (c.name === 'Wolf3D_Teeth') this.teethMesh = c as THREE.Mesh;
+    loader.load(
+      url,
+      (gltf) => {
+        if (!current()) {
+          disposeObject(gltf.scene);
+          return;
+        }
+        this.unloadAvatar();
+
+        const avatar = gltf.scene;
+        avatar.position.set(0, 0, 0);
+        avatar.traverse((c: any) => {
+          if (c.isMesh) {
+            c.castShadow = true;
+            c.receiveShadow = true;
+          }
+        });
+
+        // List morph targets so you see exactly what’s available
+        if (this.debug) {
+          avatar.traverse((c: any) => {
+            if (c.isMesh && c.morphTargetDictionary) {
+              console.log('[Morphs]', c.name, Object.keys(c.morphTargetDictionary));
+            }
+          });
         }
-      });
 
-      // Debug: list morph targets so you see exactly what’s available
-      this.avatar.traverse((c: any) => {
-        if (c.isMesh && c.morphTargetDictionary) {
-          console.log('[Morphs]', c.name, Object.keys(c.morphTargetDictionary));
+        const profile =
+          RIG_PROFILES.find((p) => p.name === this.rigName) ?? detectRig(avatar);
+        this.avatar = avatar;
+        this.rig = new RigBinding(avatar, profile);
+        this.hasVisemes = this.rig.has('viseme_aa');
+        const rig = this.rig;
+        this.jawIsViseme = rig.slots('jaw').some((s) => rig.drivenBy(s, VISEME_CONTROLS));
+        this.head = this.rig.node('head') ?? this.rig.node('headMesh');
+        if (this.head) this.headRest.copy(this.head.quaternion);
+        this.leftEar = this.rig.node('leftEar');
+        this.rightEar = this.rig.node('rightEar');
+        this.gestures = new GestureLayer(avatar, gltf.animations);
+        this.loadGestures(this.gestures, token);
+
+        this.scene.add(avatar);
+        this.frameAvatar();
+        this.scheduleNextBlink();
+        this.emit('avatar-loaded', {src: url, rig: profile.name});
+      },
+      (e: ProgressEvent) => {
+        if (current()) {
+          this.emit('avatar-progress', {src: url, loaded: e.loaded, total: e.total});
         }
-      });
+      },
+      (error) => {
+        if (!current()) return;
+        console.error(`Failed to load avatar ${url}:`, error);
+        this.emit('avatar-error', {src: url, error});
+      },
+    );
+  }
 
-      this.scene.add(this.avatar);
-      this.scheduleNextBlink();
+  private async loadGestures(gestures: GestureLayer, token: number) {
+    const urls = this.gesturesSrc.split(/\s+/).filter(Boolean);
+    const results = await Promise.allSettled(urls.map((url) => gestures.load(url)));
+    results.forEach((r, i) => {
+      if (r.status === 'rejected') console.warn(`Failed to load gestures ${urls[i]}:`, r.reason);
     });
+    if (token === this.loadToken) gestures.addFallbacks(this.head);
+  }
+
+  private unloadAvatar() {
+    if (!this.avatar) return;
+    this.gestures?.dispose();
+    this.gestures = undefined;
+    this.head = this.leftEar = this.rightEar = undefined;
+    this.scene.remove(this.avatar);
+    disposeObject(this.avatar);
+    this.avatar = undefined;
+    this.rig = undefined;
+    this.hasVisemes = false;
+    this.jawIsViseme = false;
+  }
+
+  /**
+   * Aim the camera from the model's bounds, matching the original hand-tuned
+   * view of a 1.8 m Ready Player Me model (eye level, most of the body).
+   */
+  private frameAvatar() {
+    if (!this.autoFrame || !this.avatar) return;
+    const box = new THREE.Box3().setFromObject(this.avatar);
+    if (box.isEmpty()) return;
+    const size = box.getSize(new THREE.Vector3());
+    const center = box.getCenter(new THREE.Vector3());
+    const focusY = box.min.y + size.y * 0.85;
+    const visible = size.y * 1.35;
+    const dist = visible / 2 / Math.tan(THREE.MathUtils.degToRad(this.camera.fov / 2));
+    this.camera.position.set(center.x, focusY, center.z + dist);
+    this.camera.lookAt(center.x, focusY, center.z);
+  }
+
+  private emit(type: string, detail: unknown) {
+    this.dispatchEvent(new CustomEvent(type, {detail, bubbles: true}));
   }
 
   /* ---------------------- Public controls ---------------------- */
-  startSpeaking()  { this._mode = 'speak'; }
-  startWhisper()   { this._mode = 'whisper'; }
-  startDance()     { this._mode = 'dance'; this.isDancing = true; }
+  startSpeaking()  { this._mode = this.isDancing ? 'dance' : this.isWhispering ? 'whisper' : 'speak'; }
+  /** Speak leaning in, softly, from now until `stopWhisper()`. */
+  startWhisper()   { this.isWhispering = true; if (this._mode === 'speak') this._mode = 'whisper'; }
+  stopWhisper()    { this.isWhispering = false; if (this._mode === 'whisper') this._mode = 'speak'; }
+  /** Dance to the beat of the assistant's audio until `stopDance()`, even between replies. */
+  startDance()     { if (!this.isDancing) this.beats?.reset(); this._mode = 'dance'; this.isDancing = true; }
   stopDance()      { this.isDancing = false; if (this._mode === 'dance') this._mode = 'idle'; }
-  goIdle()         { this._mode = 'idle'; this.isDancing = false; }
+  /** Done speaking or waiting: back to the dance if one is on, else idle. */
+  rest()           { this._mode = this.isDancing ? 'dance' : 'idle'; }
+  /** Idle, and out of any dance or whisper. */
+  goIdle()         { this._mode = 'idle'; this.isDancing = false; this.isWhispering = false; }
+  startListening() { this._mode = 'listening'; this.quietFor = 0; }
+  startThinking()  { this._mode = 'thinking'; this.thinkingFor = 0; }
+
+  /**
+   * Play a gesture clip (`wave`, `nod`, `point`, `shrug`, or any clip name
+   * the model has). Returns false if the model has no such clip.
+   */
+  playGesture(name: string, options?: GestureOptions) {
+    return this.gestures?.play(name, options) ?? false;
+  }
+
+  stopGesture(name: string, fadeMs?: number) {
+    this.gestures?.stop(name, fadeMs);
+  }
+
+  /** Blend an emotion over whatever the avatar is doing; see `ExpressionBlender.set`. */
+  setExpression(emotion: Emotion, intensity = 1, holdMs = 0) {
+    this.expressions.set(emotion, intensity, holdMs);
+  }
 
   /* ---------------------- Utils ---------------------- */
+  /** Run the frame loop only while connected, on screen and in a visible tab. */
+  private updateRunning() {
+    const run =
+      this.isConnected && this.onScreen && document.visibilityState === 'visible' && !!this.composer;
+    if (run === this.running) return;
+    this.running = run;
+    if (run) {
+      this.clock.getDelta(); // don't animate across the pause
+      this.governor.reset();
+      this.qualityControl.reset();
+      this.frame = requestAnimationFrame(this.tick);
+    } else {
+      cancelAnimationFrame(this.frame);
+    }
+  }
+
+  private tick = (now: number) => {
+    this.frame = requestAnimationFrame(this.tick);
+    this.governor.fps = this._mode === 'idle' ? Math.min(this.idleFps, this.maxFps) : this.maxFps;
+    if (!this.governor.ready(now)) return;
+    this.qualityControl.sample(this.governor.interval, 1000 / this.governor.fps);
+    this.drawFrame();
+    if (this.debug && now - this.statsAt > 500) {
+      this.statsAt = now;
+      const {fps, tier} = this.qualityControl;
+      this.stats = `${fps.toFixed(0)} fps · ${tier.name}${this.qualityControl.pinned ? ' (fixed)' : ''}`;
+    }
+  };
+
+  /** Bloom, pixel ratio and antialiasing for the current quality tier. */
+  private applyQuality() {
+    const {bloom, maxPixelRatio, samples} = this.qualityControl.tier;
+    this.bloomPass.enabled = bloom;
+    for (const target of [this.composer.renderTarget1, this.composer.renderTarget2]) {
+      if (target.samples === samples) continue;
+      target.samples = samples;
+      target.dispose(); // reallocated with the new sample count on next use
+    }
+    const ratio = Math.min(window.devicePixelRatio, maxPixelRatio);
+    this.renderer.setPixelRatio(ratio);
+    this.composer.setPixelRatio(ratio);
+  }
+
+  /** Follow the element's size, e.g. a widget panel opening or the window resizing. */
   private onResize() {
-    const w = this.clientWidth || window.innerWidth;
-    const h = this.clientHeight || window.innerHeight;
+    const w = this.clientWidth;
+    const h = this.clientHeight;
+    if (!w || !h) return; // hidden; sized again when shown
     this.camera.aspect = w / h;
     this.camera.updateProjectionMatrix();
     this.renderer.setSize(w, h);
@@ -172,30 +523,39 @@ export class GdmLiveAudioAvatar extends LitElement {
     return prev * (1 - alpha) + v * alpha;
   }
 
-  /** Apply to *all* meshes that contain the morph name */
+  /** Set a rig control (or raw morph name) on every mesh that has it. */
   private applyMorph(name: string, value: number) {
-    if (!this.avatar) return;
-    this.avatar.traverse((child: any) => {
-      if (child.isMesh && child.morphTargetDictionary && child.morphTargetInfluences) {
-        const idx = child.morphTargetDictionary[name];
-        if (idx !== undefined) {
-          child.morphTargetInfluences[idx] = THREE.MathUtils.clamp(value, 0, 1);
-        }
-      }
-    });
+    if (!this.rig) return;
+    const v = THREE.MathUtils.clamp(value, 0, 1);
+    for (const {influences, index} of this.rig.slots(name)) influences[index] = v;
   }
 
   private lerpMorph(name: string, to: number, rate = 0.15) {
-    if (!this.avatar) return;
-    this.avatar.traverse((child: any) => {
-      if (child.isMesh && child.morphTargetDictionary && child.morphTargetInfluences) {
-        const idx = child.morphTargetDictionary[name];
-        if (idx !== undefined) {
-          const cur = child.morphTargetInfluences[idx] || 0;
-          child.morphTargetInfluences[idx] = THREE.MathUtils.lerp(cur, THREE.MathUtils.clamp(to, 0, 1), rate);
-        }
-      }
-    });
+    if (!this.rig) return;
+    const v = THREE.MathUtils.clamp(to, 0, 1);
+    for (const {influences, index} of this.rig.slots(name)) {
+      influences[index] = THREE.MathUtils.lerp(influences[index] || 0, v, rate);
+    }
+  }
+
+  /**
+   * Drive the mouth from the assistant's audio: visemes when the rig has
+   * them, otherwise the jaw at `fallback`. Returns the openness used.
+   */
+  private driveMouth(fallback: number, scale = 1) {
+    if (this.hasVisemes && this.lipSync) {
+      this.applyVisemes(scale);
+      if (!this.jawIsViseme) this.lerpMorph('jaw', 0, 0.2);
+      return this.lipSync.level * scale;
+    }
+    this.applyMorph('jaw', fallback);
+    return fallback;
+  }
+
+  private applyVisemes(scale: number) {
+    if (!this.lipSync) return;
+    const weights = this.lipSync.weights;
+    for (const v of VISEMES) this.applyMorph(`viseme_${v}`, weights[v] * scale);
   }
 
   private scheduleNextBlink() {
@@ -213,47 +573,116 @@ export class GdmLiveAudioAvatar extends LitElement {
       // simple triangular blink envelope ~120ms close/open
       this.blinkT -= dt * 6;
       const phase = 1 - Math.abs(1 - Math.max(this.blinkT, 0) * 2); // 0->1->0
-      // Try common names; if not present, it’s harmless
-      this.applyMorph('eyeBlinkLeft', phase);
-      this.applyMorph('eyeBlinkRight', phase);
-      // Some rigs put blink on EyeLeft/EyeRight with different naming; fallback:
-      this.applyMorph('eyesClosed', phase);
+      this.applyMorph('blinkLeft', phase);
+      this.applyMorph('blinkRight', phase);
     }
   }
 
-  /* ---------------------- Per-mode animation ---------------------- */
-  private animate() {
-    requestAnimationFrame(() => this.animate());
+  /**
+   * idle → listening while the mic is loud, → thinking once it goes quiet,
+   * → idle if no reply starts within a few seconds.
+   */
+  private updateAttention(dt: number) {
+    const loud = this.vad ? this.vad.speaking : this.inLevel > this.listenThreshold;
+    switch (this._mode) {
+      case 'idle':
+        if (loud) this.startListening();
+        break;
+      case 'listening':
+        if (this.vad) {
+          // The VAD's hangover already waited out short pauses.
+          if (!loud) this.startThinking();
+          break;
+        }
+        this.quietFor = this.inLevel > this.listenThreshold * 0.6 ? 0 : this.quietFor + dt;
+        if (this.quietFor > 0.8) this.startThinking();
+        break;
+      case 'thinking':
+        this.thinkingFor += dt;
+        if (loud) this.startListening();
+        else if (this.thinkingFor > 8) this.rest();
+        break;
+    }
+  }
 
+  /**
+   * Mode face and emotion overlay; where both touch a morph the stronger
+   * wins. Runs after the mouth code, and only adds to the morphs it set.
+   */
+  private applyFace(dt: number) {
+    const k = 1 - Math.exp(-dt / 0.25);
+    const target = MODE_FACE[this._mode] ?? {};
+    for (const m of MODE_FACE_MORPHS) {
+      this.modeFace[m] += ((target[m] ?? 0) - this.modeFace[m]) * k;
+    }
+    const emotion = this.expressions.update(dt);
+    for (const m of MODE_FACE_MORPHS) {
+      this.overlayMorph(m, Math.max(this.modeFace[m], emotion[m] ?? 0));
+    }
+    for (const m in emotion) {
+      if (!(m in this.modeFace)) this.overlayMorph(m, emotion[m]);
+    }
+  }
+
+  /**
+   * Set an overlay morph, resolved through the rig. Where it shares a slot
+   * with the mouth, e.g. `jawOpen` as an ARKit rig's `jaw`, the larger of
+   * the two is kept.
+   */
+  private overlayMorph(name: string, value: number) {
+    if (!this.rig) return;
+    const v = THREE.MathUtils.clamp(value, 0, 1);
+    for (const slot of this.rig.slots(name)) {
+      const {influences, index} = slot;
+      influences[index] = this.rig.drivenBy(slot, MOUTH_CONTROLS)
+        ? Math.max(influences[index], v)
+        : v;
+    }
+  }
+
+  /* ---------------------- Per-mode animation ---------------------- */
+  private drawFrame() {
     const dt = this.clock.getDelta();
+    // Scales every continuous movement below.
+    const m = this.reducedMotion ? REDUCED_MOTION : 1;
 
     this.outLevel = this.pullLevel(this.outputAnalyser, this.outLevel, 0.35);
     this.inLevel = this.pullLevel(this.inputAnalyser, this.inLevel, 0.35);
-    
-    if (this.avatar) {
+    // Beat position, and 1 on each beat easing to 0 halfway to the next.
+    const dancing = this._mode === 'dance';
+    if (dancing) this.beats?.update();
+    const beat = this.beats?.position ?? performance.now() / 600;
+    const onBeat = Math.cos(beat * Math.PI) ** 2;
+    // Bigger moves once the beat is found; a gentler groove until then.
+    const groove = 0.6 + 0.4 * (this.beats?.confidence ?? 0);
+
+    this.gestures?.update(dt);
+
+    // Idle head sway on top of the rest pose, unless a gesture has the head.
+    if (this.head && !this.gestures?.drives(this.head)) {
       const t = performance.now() * 0.0015;
-      const head = this.headMesh as any;
-      if (head) {
-        head.rotation.y = Math.sin(t * 0.6) * 0.03;
-        head.rotation.x = Math.sin(t * 0.4) * 0.02;
-        // Add slight head tilt for listening based on inLevel
-        head.rotation.z = THREE.MathUtils.lerp(
-          head.rotation.z,
-          this.inLevel * 0.1, // Tilt up to 0.1 radians when user is speaking
-          0.1
-        );
-      }
+      const sway = this.headSway;
+      sway.y = Math.sin(t * 0.6) * 0.03 * m;
+      // Dancing bobs the head down on each beat.
+      sway.x = dancing ? (onBeat * 0.1 - 0.03) * groove * m : Math.sin(t * 0.4) * 0.02 * m;
+      // Add slight head tilt for listening based on inLevel
+      sway.z = THREE.MathUtils.lerp(
+        sway.z,
+        this.inLevel * 0.1 * m, // Tilt up to 0.1 radians when user is speaking
+        0.1
+      );
+      this.head.quaternion.copy(this.headRest).multiply(this.swayQuat.setFromEuler(sway));
     }
 
     // Reset baseline each frame (morphs that we control)
-    this.lerpMorph('mouthSmile', 0, 0.12);
+    this.lerpMorph('smile', 0, 0.12);
 
     // Enhanced ear animations for listening
-    if (this.avatar) {
-      const earScale = 1 + this.inLevel * 0.3; // Increased scale intensity
-      const wiggle = Math.sin(performance.now() * 0.006) * this.inLevel * 0.25; // Increased wiggle
-      const L = this.avatar.getObjectByName('LeftEar') as THREE.Object3D;
-      const R = this.avatar.getObjectByName('RightEar') as THREE.Object3D;
+    if (this.leftEar || this.rightEar) {
+      const earScale = 1 + this.inLevel * 0.3 * m; // Increased scale intensity
+      const wiggle = Math.sin(performance.now() * 0.006) * this.inLevel * 0.25 * m; // Increased wiggle
+      const L = this.leftEar;
+      const R = this.rightEar;
       if (L) {
         L.scale.set(1, earScale + wiggle, 1);
         L.rotation.z = this.inLevel * 0.1; // Subtle ear rotation
@@ -264,21 +693,21 @@ export class GdmLiveAudioAvatar extends LitElement {
       }
     }
 
+    this.lipSync?.update(dt);
+    this.updateAttention(dt);
+
     // Mode logic
-    console.log(this._mode);
     switch (this._mode) {
       case 'speak': {
         // Drive mouth by TTS/output level; add consistent smile
-        const mouth = THREE.MathUtils.clamp(this.outLevel * 3.0, 0, 1);
-        this.applyMorph('mouthOpen', mouth);
-        this.lerpMorph('mouthSmile', mouth); // Increased smile
+        const mouth = this.driveMouth(THREE.MathUtils.clamp(this.outLevel * 3.0, 0, 1));
+        this.lerpMorph('smile', mouth); // Increased smile
         break;
       }
       case 'whisper': {
         // Subtle mouth + head lean-in; add slight smile
-        const mouth = THREE.MathUtils.clamp(this.outLevel * 1.2, 0, 0.4);
-        this.applyMorph('mouthOpen', mouth);
-        this.lerpMorph('mouthSmile', 0.15, 0.08); // Increased smile
+        this.driveMouth(THREE.MathUtils.clamp(this.outLevel * 1.2, 0, 0.4), 0.4);
+        this.lerpMorph('smile', 0.15, 0.08); // Increased smile
         if (this.avatar) {
           const lean = 0.04 + this.outLevel * 0.05;
           this.avatar.position.y = THREE.MathUtils.lerp(this.avatar.position.y, lean, 0.08);
@@ -288,18 +717,39 @@ export class GdmLiveAudioAvatar extends LitElement {
       }
       case 'dance': {
         this.isDancing = true;
-        const t = performance.now() * 0.001;
-        this.dancePhase += dt;
-        // Groove: sway + bounce
+        // Bounce on each beat, sway side to side over two and lean over four.
         if (this.avatar) {
-          this.avatar.position.y = Math.sin(t * 4) * 0.05 + 0.02;
-          this.avatar.rotation.y = Math.sin(t * 2) * 0.25;
-          this.avatar.rotation.z = Math.sin(t * 3.2) * 0.07;
+          this.avatar.position.y = (onBeat * 0.05 + 0.02) * groove * m;
+          this.avatar.rotation.y = Math.sin(beat * Math.PI) * 0.25 * groove * m;
+          this.avatar.rotation.z = Math.sin((beat * Math.PI) / 2) * 0.07 * groove * m;
         }
         // Keep mouth reactive to output so it can "sing"
-        const mouth = THREE.MathUtils.clamp(this.outLevel * 2.5, 0, 1);
-        this.applyMorph('mouthOpen', mouth);
-        this.lerpMorph('mouthSmile', 0.25 + this.outLevel * 0.3, 0.15);
+        this.driveMouth(THREE.MathUtils.clamp(this.outLevel * 2.5, 0, 1));
+        this.lerpMorph('smile', 0.25 + this.outLevel * 0.3, 0.15);
+        break;
+      }
+      case 'listening': {
+        // Lean in slightly and keep the mouth still
+        const t = performance.now() * 0.001;
+        this.lerpMorph('jaw', 0, 0.15);
+        if (this.hasVisemes) this.applyVisemes(1);
+        if (this.avatar) {
+          this.avatar.position.y = Math.sin(t * 1.2) * 0.01 * m;
+          this.avatar.rotation.y = THREE.MathUtils.lerp(this.avatar.rotation.y, 0, 0.05);
+          this.avatar.rotation.x = THREE.MathUtils.lerp(this.avatar.rotation.x, -0.04, 0.05);
+        }
+        break;
+      }
+      case 'thinking': {
+        // Slow, considered sway while waiting for the reply
+        const t = performance.now() * 0.001;
+        this.lerpMorph('jaw', 0, 0.15);
+        if (this.hasVisemes) this.applyVisemes(1);
+        if (this.avatar) {
+          this.avatar.position.y = Math.sin(t * 0.8) * 0.01 * m;
+          this.avatar.rotation.y = THREE.MathUtils.lerp(this.avatar.rotation.y, 0.08, 0.03);
+          this.avatar.rotation.z = THREE.MathUtils.lerp(this.avatar.rotation.z, 0.03, 0.03);
+        }
         break;
       }
       case 'idle':
@@ -307,27 +757,25 @@ export class GdmLiveAudioAvatar extends LitElement {
         // Breathing mouth movement
         const t = performance.now() * 0.001;
         const idleMouth = (Math.sin(t * 0.9) + 1) * 0.05; 
-        this.lerpMorph('mouthOpen', idleMouth, 0.1);
+        this.lerpMorph('jaw', idleMouth, 0.1);
+        if (this.hasVisemes) this.applyVisemes(1); // let the last shape release
 
         if (this.avatar) {
           // Gentle breathing & swaying
-          this.avatar.position.y = Math.sin(t * 1.2) * 0.015;
-          this.avatar.rotation.y = Math.sin(t * 0.6) * 0.05;
-          this.avatar.rotation.x = Math.sin(t * 0.4) * 0.03;
+          this.avatar.position.y = Math.sin(t * 1.2) * 0.015 * m;
+          this.avatar.rotation.y = Math.sin(t * 0.6) * 0.05 * m;
+          this.avatar.rotation.x = Math.sin(t * 0.4) * 0.03 * m;
         }
         break;
       }
     }
 
-    // Teeth should follow mouthOpen (some rigs need it)
-    if (this.teethMesh && this.headMesh) {
-      const idx = this.headMesh.morphTargetDictionary?.['mouthOpen'];
-      if (idx !== undefined) {
-        const v = this.headMesh.morphTargetInfluences![idx] || 0;
-        this.teethMesh.morphTargetInfluences![idx] = v;
-      }
+    if (this._mode !== 'thinking' && this._mode !== 'dance' && this.avatar) {
+      this.avatar.rotation.z = THREE.MathUtils.lerp(this.avatar.rotation.z, 0, 0.05);
     }
 
+    this.applyFace(dt);
+
     // Random blinks
     this.doBlink(dt);
 
@@ -335,7 +783,10 @@ export class GdmLiveAudioAvatar extends LitElement {
   }
 
   /* ---------------------- Render ---------------------- */
-  protected render() { return html`<canvas></canvas>`; }
+  protected render() {
+    return html`<canvas></canvas>
+      ${this.debug ? html`<div class="stats" aria-hidden="true">${this.stats}</div>` : ''}`;
+  }
 }
 
 declare global {
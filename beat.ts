@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Analyser} from './analyser';
+
+export interface BeatOptions {
+  fftSize?: number;
+  /** Tempo range; estimates outside it are doubled or halved into it. */
+  minBpm?: number;
+  maxBpm?: number;
+  /** Tempo to keep time with until the audio gives one. */
+  defaultBpm?: number;
+}
+
+/** How far back onsets vote on the tempo. */
+const ONSET_WINDOW_MS = 8000;
+/** How far back the onset threshold adapts. */
+const FLUX_WINDOW_MS = 1500;
+/** Onsets closer than this are the same one. */
+const MIN_ONSET_GAP_MS = 180;
+/** Intervals longer than this are too loose to say much about the tempo. */
+const MAX_INTERVAL_MS = 2000;
+/** Share of an onset's offset from the predicted beat that the clock corrects. */
+const PHASE_GAIN = 0.25;
+/** After this long without onsets, confidence fades out over as long again. */
+const SILENCE_MS = 2000;
+/** Bass below this counts double: kicks carry the beat in most music. */
+const BASS_HZ = 200;
+/** Above this is mostly hiss and sibilance, which marks syllables rather than beats. */
+const MAX_FLUX_HZ = 4000;
+
+/**
+ * Follows the beat of an audio node: spectral-flux onsets against an
+ * adaptive threshold, a tempo voted on by the intervals between recent
+ * onsets, and a beat clock that each onset nudges back into phase. Without
+ * onsets the clock keeps running at the last tempo, so motion tied to it
+ * stays smooth through quiet bars.
+ */
+export class BeatDetector extends Analyser {
+  private minBpm: number;
+  private maxBpm: number;
+  private defaultBpm: number;
+  private previous: Float32Array;
+  private fluxes: {at: number; flux: number}[] = [];
+  private onsets: number[] = [];
+  private lastUpdate?: number;
+  private _bpm: number;
+  private _position = 0;
+  private hitRate = 0;
+  private _onset = false;
+
+  constructor(node: AudioNode, options: BeatOptions = {}) {
+    super(node, {fftSize: options.fftSize ?? 1024, smoothingTimeConstant: 0.2});
+    this.minBpm = options.minBpm ?? 70;
+    this.maxBpm = options.maxBpm ?? 180;
+    this.defaultBpm = this._bpm = options.defaultBpm ?? 100;
+    this.previous = new Float32Array(this.data.length);
+  }
+
+  /** Beats per minute. */
+  get bpm() {
+    return this._bpm;
+  }
+
+  /** Beats counted so far; 3.25 is a quarter of the way through the fourth. */
+  get position() {
+    return this._position;
+  }
+
+  /** 0..1: how well recent onsets have landed on the predicted beats. */
+  get confidence() {
+    const last = this.onsets.at(-1);
+    if (last === undefined || this.lastUpdate === undefined) return 0;
+    const quiet = this.lastUpdate - last;
+    return this.hitRate * Math.min(1, Math.max(0, 2 - quiet / SILENCE_MS));
+  }
+
+  /** Whether the last `update()` heard an onset. */
+  get onset() {
+    return this._onset;
+  }
+
+  /** Read the audio and advance the beat clock to `now` (ms). */
+  update(now = performance.now()) {
+    super.update();
+    const dt = this.lastUpdate === undefined ? 0 : Math.min(now - this.lastUpdate, 250);
+    this.lastUpdate = now;
+    this._position += (dt * this._bpm) / 60000;
+
+    const flux = this.flux();
+    const fluxes = this.fluxes;
+    fluxes.push({at: now, flux});
+    while (fluxes[0].at < now - FLUX_WINDOW_MS) fluxes.shift();
+    let mean = 0;
+    for (const f of fluxes) mean += f.flux;
+    mean /= fluxes.length;
+    let variance = 0;
+    for (const f of fluxes) variance += (f.flux - mean) ** 2;
+    const threshold = mean + 1.5 * Math.sqrt(variance / fluxes.length);
+
+    const last = this.onsets.at(-1) ?? -Infinity;
+    this._onset = flux > threshold && flux > 0.01 && now - last > MIN_ONSET_GAP_MS;
+    if (this._onset) this.addOnset(now);
+  }
+
+  /** Start over at the default tempo, e.g. when a new song starts. */
+  reset() {
+    this.previous.fill(0);
+    this.fluxes = [];
+    this.onsets = [];
+    this.lastUpdate = undefined;
+    this._bpm = this.defaultBpm;
+    this._position = 0;
+    this.hitRate = 0;
+    this._onset = false;
+  }
+
+  /** Rise in level (0..1) since the last frame, summed over the bins that carry the beat. */
+  private flux() {
+    const data = this.data;
+    const bass = Math.ceil(BASS_HZ / this.binHz);
+    const top = Math.min(data.length, Math.ceil(MAX_FLUX_HZ / this.binHz));
+    let sum = 0;
+    for (let i = 0; i < top; i++) {
+      const rise = data[i] - this.previous[i];
+      if (rise > 0) sum += i < bass ? 2 * rise : rise;
+    }
+    this.previous.set(data);
+    return sum / ((top + bass) * 255);
+  }
+
+  private addOnset(now: number) {
+    const onsets = this.onsets;
+    onsets.push(now);
+    while (onsets[0] < now - ONSET_WINDOW_MS) onsets.shift();
+
+    // How far off the nearest predicted beat this onset is, in beats.
+    let offset = this._position % 1;
+    if (offset > 0.5) offset -= 1;
+    this.hitRate = this.hitRate * 0.85 + (Math.abs(offset) < 0.15 ? 0.15 : 0);
+    // Off-beat onsets pull both ways and mostly cancel; the beat pulls one way.
+    this._position = Math.max(0, this._position - offset * PHASE_GAIN);
+
+    this.estimateTempo();
+  }
+
+  /** Let every pair of nearby onsets vote for the tempo its interval implies. */
+  private estimateTempo() {
+    const votes = new Float32Array(this.maxBpm - this.minBpm + 1);
+    const onsets = this.onsets;
+    for (let i = 0; i < onsets.length; i++) {
+      for (let j = i + 1; j < onsets.length && onsets[j] - onsets[i] <= MAX_INTERVAL_MS; j++) {
+        let bpm = 60000 / (onsets[j] - onsets[i]);
+        while (bpm < this.minBpm) bpm *= 2;
+        while (bpm > this.maxBpm) bpm /= 2;
+        // Spread each vote so slightly uneven intervals still agree.
+        const k = Math.round(bpm) - this.minBpm;
+        for (let d = -2; d <= 2; d++) {
+          if (k + d >= 0 && k + d < votes.length) votes[k + d] += 1 - Math.abs(d) / 3;
+        }
+      }
+    }
+    let best = 0;
+    for (let k = 1; k < votes.length; k++) if (votes[k] > votes[best]) best = k;
+    // A handful of agreeing intervals before trusting it over the current tempo.
+    if (votes[best] < 3) return;
+    const bpm = best + this.minBpm;
+    const current = Math.round(this._bpm) - this.minBpm;
+    if (Math.abs(bpm - this._bpm) <= 3) {
+      this._bpm += (bpm - this._bpm) * 0.3;
+    } else if (votes[best] > 1.5 * (votes[current] ?? 0)) {
+      this._bpm = bpm;
+    }
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {LitElement, PropertyValues, css, html} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {BookingDetails, BookingResult, bookingProblems, formatDate} from './booking';
+import {Locale, messages} from './i18n';
+
+export type BookingCardStatus = 'review' | 'sending' | 'done';
+
+/**
+ * A booking the assistant drafted, for the user to correct and submit.
+ *
+ * @fires date-change - `detail` is the newly picked date; set `slots` for it.
+ * @fires confirm - `detail` is the `BookingDetails` as edited.
+ * @fires cancel - The user doesn't want the booking.
+ * @fires close - The user dismissed the confirmation.
+ */
+@customElement('gdm-booking-card')
+export class GdmBookingCard extends LitElement {
+  @property({attribute: false}) draft?: BookingDetails;
+  /** Free slots on the chosen date. */
+  @property({attribute: false}) slots: string[] = [];
+  @property() status: BookingCardStatus = 'review';
+  /** Why the last submission failed. */
+  @property() error = '';
+  @property({attribute: false}) result?: BookingResult;
+  @property() locale: Locale = 'en-IN';
+
+  @state() private values?: BookingDetails;
+  @state() private problems: string[] = [];
+
+  static styles = css`
+    :host {
+      display: block;
+      color: white;
+      font: 14px/1.4 system-ui, sans-serif;
+      background: rgba(20, 20, 20, 0.9);
+      border: 1px solid rgba(255, 255, 255, 0.15);
+      border-radius: 12px;
+      padding: 16px;
+      width: 300px;
+      max-width: 100%;
+      box-sizing: border-box;
+    }
+
+    h2 {
+      font-size: 16px;
+      margin: 0 0 8px;
+    }
+
+    p {
+      margin: 0 0 12px;
+      opacity: 0.8;
+    }
+
+    label {
+      display: block;
+      margin: 8px 0 4px;
+      opacity: 0.8;
+    }
+
+    input,
+    select,
+    textarea,
+    button {
+      font: inherit;
+      color: inherit;
+      background: rgba(255, 255, 255, 0.08);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      padding: 6px 8px;
+    }
+
+    input,
+    select,
+    textarea {
+      width: 100%;
+      box-sizing: border-box;
+    }
+
+    option {
+      color: black;
+    }
+
+    .row {
+      display: flex;
+      gap: 6px;
+    }
+
+    .errors {
+      margin: 8px 0 0;
+      padding-left: 18px;
+      color: #ff8a80;
+    }
+
+    .actions {
+      display: flex;
+      gap: 6px;
+      justify-content: flex-end;
+      margin-top: 12px;
+    }
+
+    button {
+      cursor: pointer;
+    }
+
+    .primary {
+      background: rgba(74, 141, 59, 0.7);
+    }
+  `;
+
+  protected willUpdate(changed: PropertyValues<this>) {
+    if (changed.has('draft')) {
+      this.values = this.draft && {...this.draft};
+      this.problems = [];
+    }
+  }
+
+  private get strings() {
+    return messages(this.locale);
+  }
+
+  private emit(type: string, detail?: unknown) {
+    this.dispatchEvent(new CustomEvent(type, {detail, bubbles: true}));
+  }
+
+  private edit(changes: Partial<BookingDetails>) {
+    this.values = {...this.values!, ...changes};
+    if ('date' in changes) {
+      // Its slots are another day's; wait for the new day's before choosing.
+      this.values.slot = '';
+      this.emit('date-change', changes.date);
+    }
+  }
+
+  private confirm(e: Event) {
+    e.preventDefault();
+    const {slot} = this.values!;
+    this.problems = bookingProblems(this.values!, this.strings);
+    if (slot && !this.slots.includes(slot)) {
+      this.problems.push(this.strings.slotTaken);
+    }
+    if (!this.problems.length) this.emit('confirm', {...this.values});
+  }
+
+  private field(key: 'name' | 'phone', label: string, type: string, autocomplete: string) {
+    return html`
+      <label for=${key}>${label}</label>
+      <input
+        id=${key}
+        type=${type}
+        autocomplete=${autocomplete}
+        required
+        .value=${this.values![key]}
+        @input=${(e: Event) => this.edit({[key]: (e.target as HTMLInputElement).value})} />
+    `;
+  }
+
+  render() {
+    const v = this.values;
+    if (!v) return '';
+    const t = this.strings;
+    if (this.status === 'done') {
+      return html`
+        <h2 role="status">${this.result?.queued ? t.bookingSaved : t.bookingConfirmed}</h2>
+        <p>
+          ${t.bookingWhen(v.listingName, v.date, v.slot)}
+          ${this.result?.reference
+            ? html`${t.reference} <strong>${this.result.reference}</strong>.`
+            : ''}
+          ${this.result?.queued
+            ? t.bookingQueued
+            : ''}
+        </p>
+        <div class="actions">
+          <button class="primary" @click=${() => this.emit('close')}>${t.done}</button>
+        </div>
+      `;
+    }
+    const sending = this.status === 'sending';
+    // The drafted slot stays choosable until the free ones have loaded.
+    const slots = this.slots.length || !v.slot ? this.slots : [v.slot];
+    const problems = this.error ? [...this.problems, this.error] : this.problems;
+    return html`
+      <form @submit=${this.confirm}>
+        <h2>${t.confirmBooking}</h2>
+        <p>${v.listingName}</p>
+        ${this.field('name', t.name, 'text', 'name')}
+        ${this.field('phone', t.phone, 'tel', 'tel')}
+        <div class="row">
+          <div>
+            <label for="date">${t.date}</label>
+            <input
+              id="date"
+              type="date"
+              required
+              min=${formatDate(new Date())}
+              .value=${v.date}
+              @change=${(e: Event) => this.edit({date: (e.target as HTMLInputElement).value})} />
+          </div>
+          <div>
+            <label for="slot">${t.time}</label>
+            <select
+              id="slot"
+              required
+              @change=${(e: Event) => this.edit({slot: (e.target as HTMLSelectElement).value})}>
+              ${v.slot
+                ? ''
+                : html`<option value="" selected disabled>
+                    ${slots.length ? t.chooseTime : t.noFreeTimes}
+                  </option>`}
+              ${slots.map(
+                (s) => html`<option value=${s} ?selected=${s === v.slot}>${s}</option>`,
+              )}
+            </select>
+          </div>
+        </div>
+        <label for="notes">${t.notes}</label>
+        <textarea
+          id="notes"
+          rows="2"
+          .value=${v.notes ?? ''}
+          @input=${(e: Event) => this.edit({notes: (e.target as HTMLTextAreaElement).value})}></textarea>
+        ${problems.length
+          ? html`<ul class="errors" role="alert">
+              ${problems.map((p) => html`<li>${p}</li>`)}
+            </ul>`
+          : ''}
+        <div class="actions">
+          <button type="button" ?disabled=${sending} @click=${() => this.emit('cancel')}>
+            ${t.cancel}
+          </button>
+          <button type="submit" class="primary" ?disabled=${sending}>
+            ${sending ? t.booking : this.error ? t.tryAgain : t.book}
+          </button>
+        </div>
+      </form>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-booking-card': GdmBookingCard;
+  }
+}
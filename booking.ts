@@ -0,0 +1,425 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {DirectoryProvider} from './directory';
+import {Messages} from './i18n';
+
+/** What the user confirms on the booking card. */
+export interface BookingDetails {
+  listingId: string;
+  listingName: string;
+  name: string;
+  phone: string;
+  /** `YYYY-MM-DD`, in the user's time zone. */
+  date: string;
+  /** Start time, `HH:MM`. */
+  slot: string;
+  notes?: string;
+}
+
+export interface Booking extends BookingDetails {
+  /** Made on this device; sending the same booking twice books it once. */
+  id: string;
+  /** Epoch milliseconds. */
+  createdAt: number;
+  profile?: string;
+}
+
+export interface BookingResult {
+  /**
+   * What to read out to the user. A queued booking has none until the
+   * service takes it; see `QueuedBookingBackend`.
+   */
+  reference?: string;
+  /** Kept on this device until it can be sent. */
+  queued: boolean;
+}
+
+/** A booking kept in `LocalBookingBackend`. */
+export interface StoredBooking extends Booking {
+  /** Why the booking service turned it down; it is kept, but not sent again. */
+  rejected?: string;
+}
+
+/** `detail` of `QueuedBookingBackend`'s `sent` event. */
+export interface BookingSentDetail {
+  booking: Booking;
+  /** The service's reference for it. */
+  reference: string;
+}
+
+/** `detail` of `QueuedBookingBackend`'s `rejected` event. */
+export interface BookingRejectedDetail {
+  booking: StoredBooking;
+  error: string;
+}
+
+/**
+ * Where bookings go. Bookings are kept on the device for development and
+ * offline use; production sends them to the HelpOne booking service.
+ */
+export interface BookingBackend {
+  /** Free slots of a listing on `date`, earliest first. */
+  checkAvailability(listingId: string, date: string): Promise<string[]>;
+  submit(booking: Booking): Promise<BookingResult>;
+}
+
+export class BookingError extends Error {
+  constructor(
+    message: string,
+    /** Whether trying again later may work, e.g. while offline. */
+    readonly retryable = false,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'BookingError';
+  }
+}
+
+/** Minutes per slot. */
+const SLOT_MINUTES = 30;
+/** For listings without usable hours. */
+const DEFAULT_HOURS = 'Mon-Sat 10:00-18:00';
+/** Round-the-clock listings still only take bookings in the daytime. */
+const ALL_DAY_HOURS = 'Daily 9:00-21:00';
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** `date` as a local Date, or undefined unless it's a real `YYYY-MM-DD` day. */
+export function parseDate(date: string) {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!m) return undefined;
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  return d.getDate() === Number(m[3]) && d.getMonth() === Number(m[2]) - 1 ? d : undefined;
+}
+
+export function formatDate(d: Date) {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Opening times on `day` (0 is Sunday), in minutes after midnight, from
+ * listing `hours` like "Mon-Sat 9:00-13:00, 17:00-21:00"; undefined if
+ * they can't be read.
+ */
+function openRanges(hours: string, day: number): [number, number][] | undefined {
+  const m = /^(daily|(\w{3})(?:-(\w{3}))?)\s+(.+)$/i.exec(hours.trim());
+  if (!m) return undefined;
+  if (!/^daily$/i.test(m[1])) {
+    const from = DAYS.indexOf(m[2].toLowerCase());
+    const to = DAYS.indexOf((m[3] ?? m[2]).toLowerCase());
+    if (from < 0 || to < 0) return undefined;
+    // Mon-Sun wraps past Saturday.
+    const open = from <= to ? day >= from && day <= to : day >= from || day <= to;
+    if (!open) return [];
+  }
+  const ranges: [number, number][] = [];
+  for (const range of m[4].split(',')) {
+    const t = /^\s*(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})\s*$/.exec(range);
+    if (!t) return undefined;
+    ranges.push([Number(t[1]) * 60 + Number(t[2]), Number(t[3]) * 60 + Number(t[4])]);
+  }
+  return ranges;
+}
+
+/**
+ * Bookable slots on `date` for a listing open `hours`, leaving out those
+ * already past at `now`.
+ */
+export function slotsFor(hours: string | undefined, date: string, now = new Date()) {
+  const day = parseDate(date);
+  if (!day) return [];
+  const h = /^24 hours$/i.test(hours?.trim() ?? '') ? ALL_DAY_HOURS : hours;
+  const ranges =
+    (h && openRanges(h, day.getDay())) ?? openRanges(DEFAULT_HOURS, day.getDay())!;
+  const today = formatDate(now) === date;
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+  const slots: string[] = [];
+  for (const [open, close] of ranges) {
+    for (let t = open; t + SLOT_MINUTES <= close; t += SLOT_MINUTES) {
+      if (today && t <= nowMinutes) continue;
+      slots.push(`${pad(Math.floor(t / 60))}:${pad(t % 60)}`);
+    }
+  }
+  return slots;
+}
+
+/** Indian mobile or landline, with or without +91 / 0 and separators. */
+const PHONE = /^(\+?91|0)?[1-9]\d{9}$/;
+
+/** What stops `details` from being booked, in `t`'s language; empty if nothing. */
+export function bookingProblems(details: BookingDetails, t: Messages, now = new Date()) {
+  const problems: string[] = [];
+  if (!details.name.trim()) problems.push(t.enterName);
+  if (!PHONE.test(details.phone.replace(/[\s()-]/g, ''))) {
+    problems.push(t.enterPhone);
+  }
+  const day = parseDate(details.date);
+  if (!day) {
+    problems.push(t.chooseDate);
+  } else if (details.date < formatDate(now)) {
+    problems.push(t.datePassed);
+  }
+  if (!/^\d{2}:\d{2}$/.test(details.slot)) problems.push(t.chooseTime);
+  return problems;
+}
+
+export const newBookingId = () =>
+  crypto.randomUUID?.() ??
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, '0')).join('');
+
+const localReference = (booking: Booking) =>
+  'HO-' + booking.id.replace(/-/g, '').slice(0, 6).toUpperCase();
+
+const STORE = 'bookings';
+
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Keeps bookings in IndexedDB. On its own it is the development backend:
+ * slots come from the listing's opening hours, less those booked here.
+ * Behind `QueuedBookingBackend` it holds bookings made while offline.
+ */
+export class LocalBookingBackend implements BookingBackend {
+  private db?: Promise<IDBDatabase>;
+
+  constructor(
+    private directory: DirectoryProvider,
+    private name = 'helpone-bookings',
+  ) {}
+
+  checkAvailability(listingId: string, date: string) {
+    return this.freeSlots(listingId, date);
+  }
+
+  async submit(booking: Booking) {
+    // The slot may have gone since it was offered; a resubmission of the
+    // same booking doesn't count against itself.
+    const free = await this.freeSlots(booking.listingId, booking.date, booking.id);
+    if (!free.includes(booking.slot)) {
+      throw new BookingError(`${booking.slot} on ${booking.date} is no longer free`, false, 409);
+    }
+    const tx = (await this.open()).transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(booking);
+    await done(tx);
+    return {reference: localReference(booking), queued: false};
+  }
+
+  /** Everything kept here, oldest first. */
+  async read(): Promise<StoredBooking[]> {
+    const tx = (await this.open()).transaction(STORE);
+    const bookings: StoredBooking[] = await request(tx.objectStore(STORE).getAll());
+    return bookings.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /** Keep `booking`, marked as turned down for `reason`. */
+  async reject(booking: Booking, reason: string) {
+    const tx = (await this.open()).transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put({...booking, rejected: reason});
+    await done(tx);
+  }
+
+  async remove(id: string) {
+    const tx = (await this.open()).transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete(id);
+    await done(tx);
+  }
+
+  /** Slots of a listing on `date` not booked here, other than by booking `except`. */
+  private async freeSlots(listingId: string, date: string, except?: string) {
+    const listing = await this.directory.getListing(listingId);
+    if (!listing) throw new BookingError(`No listing with id ${listingId}`);
+    const taken = new Set(
+      (await this.read())
+        .filter(
+          (b) => b.listingId === listingId && b.date === date && !b.rejected && b.id !== except,
+        )
+        .map((b) => b.slot),
+    );
+    return slotsFor(listing.hours, date).filter((slot) => !taken.has(slot));
+  }
+
+  private open() {
+    this.db ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(this.name, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE, {keyPath: 'id'});
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return this.db;
+  }
+}
+
+export interface RetryOptions {
+  attempts?: number;
+  /** Wait before the first retry; doubles for each one after. */
+  delayMs?: number;
+}
+
+/** Run `task` until it succeeds, fails for good, or runs out of `attempts`. */
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  {attempts = 3, delayMs = 500}: RetryOptions = {},
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      if (!(e instanceof BookingError && e.retryable) || attempt >= attempts) throw e;
+      await new Promise((resolve) => setTimeout(resolve, delayMs * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+/**
+ * Backend of the HelpOne booking service.
+ *
+ *   GET  {baseUrl}/availability?listingId=&date=  → {slots}
+ *   POST {baseUrl}/bookings                       → {reference}
+ *
+ * Bookings carry their id as `Idempotency-Key`, so retries can't book twice.
+ */
+export class HttpBookingBackend implements BookingBackend {
+  constructor(
+    private baseUrl: string,
+    private retry: RetryOptions = {},
+  ) {}
+
+  async checkAvailability(listingId: string, date: string) {
+    const params = new URLSearchParams({listingId, date});
+    const data = await withRetry(() => this.fetch(`/availability?${params}`), this.retry);
+    return (data.slots ?? []) as string[];
+  }
+
+  async submit(booking: Booking) {
+    const data = await withRetry(
+      () =>
+        this.fetch('/bookings', {
+          method: 'POST',
+          headers: {'Content-Type': 'application/json', 'Idempotency-Key': booking.id},
+          body: JSON.stringify(booking),
+        }),
+      this.retry,
+    );
+    return {reference: String(data.reference), queued: false};
+  }
+
+  private async fetch(path: string, init?: RequestInit) {
+    let res: Response;
+    try {
+      res = await fetch(this.baseUrl.replace(/\/$/, '') + path, init);
+    } catch (e) {
+      throw new BookingError(`Booking service unreachable: ${e.message}`, true);
+    }
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      throw new BookingError(
+        body.error ?? `Booking request failed: ${res.status}`,
+        res.status >= 500 || res.status === 429,
+        res.status,
+      );
+    }
+    return res.json();
+  }
+}
+
+/**
+ * Sends bookings to `remote`, and keeps those it can't take right now in
+ * `outbox` to send again once the browser is back online. Those have no
+ * reference until they are sent: fires `sent` with a `BookingSentDetail`
+ * then, or `rejected` with a `BookingRejectedDetail` if the service turns
+ * one down, which stays in the outbox marked as such.
+ */
+export class QueuedBookingBackend extends EventTarget implements BookingBackend {
+  private flushing?: Promise<void>;
+
+  constructor(
+    private remote: BookingBackend,
+    private outbox: LocalBookingBackend,
+  ) {
+    super();
+    window.addEventListener('online', () => this.flush());
+    this.flush();
+  }
+
+  async checkAvailability(listingId: string, date: string) {
+    try {
+      return await this.remote.checkAvailability(listingId, date);
+    } catch (e) {
+      if (!(e instanceof BookingError && e.retryable)) throw e;
+      // Opening hours are a fair guess while the service is out of reach.
+      return this.outbox.checkAvailability(listingId, date);
+    }
+  }
+
+  async submit(booking: Booking) {
+    try {
+      return await this.remote.submit(booking);
+    } catch (e) {
+      if (!(e instanceof BookingError && e.retryable)) throw e;
+      await this.outbox.submit(booking);
+      return {queued: true};
+    }
+  }
+
+  /** Send what the outbox holds; anything still out of reach stays for next time. */
+  flush() {
+    this.flushing ??= (async () => {
+      try {
+        for (const booking of await this.outbox.read()) {
+          if (booking.rejected) continue;
+          let reference: string | undefined;
+          try {
+            ({reference} = await this.remote.submit(booking));
+          } catch (e) {
+            if (e instanceof BookingError && e.retryable) break;
+            // The service won't ever take it, e.g. the slot went meanwhile.
+            // The user thinks it's booked, so keep it and say so.
+            const error = e instanceof Error ? e.message : String(e);
+            await this.outbox.reject(booking, error);
+            this.dispatchEvent(
+              new CustomEvent<BookingRejectedDetail>('rejected', {
+                detail: {booking: {...booking, rejected: error}, error},
+              }),
+            );
+            continue;
+          }
+          await this.outbox.remove(booking.id);
+          this.dispatchEvent(
+            new CustomEvent<BookingSentDetail>('sent', {
+              detail: {booking, reference: reference ?? ''},
+            }),
+          );
+        }
+      } catch (e) {
+        console.warn('Sending queued bookings failed:', e);
+      } finally {
+        this.flushing = undefined;
+      }
+    })();
+    return this.flushing;
+  }
+}
+
+/** The booking service when a URL is configured, this device otherwise. */
+export function createBookingBackend(
+  directory: DirectoryProvider,
+  baseUrl = process.env.HELPONE_BOOKING_URL,
+): BookingBackend {
+  const local = new LocalBookingBackend(directory);
+  return baseUrl ? new QueuedBookingBackend(new HttpBookingBackend(baseUrl), local) : local;
+}
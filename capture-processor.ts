@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * AudioWorklet that turns microphone input at the device rate into
+ * fixed-size mono frames at the Live API input rate. Runs on the audio
+ * rendering thread; frames are transferred to the main thread.
+ */
+import {StreamingResampler} from './utils';
+
+// AudioWorkletGlobalScope is not part of the DOM lib.
+declare const sampleRate: number;
+declare function registerProcessor(name: string, ctor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+}
+
+export interface CaptureProcessorOptions {
+  targetRate: number;
+  frameMs: number;
+  /** Emit silence while nothing upstream is playing, so time keeps running. */
+  fillSilence?: boolean;
+}
+
+// One render quantum of silence.
+const SILENCE = new Float32Array(128);
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  private resampler: StreamingResampler;
+  private resampled: Float32Array;
+  private frame: Float32Array;
+  private frameLength = 0;
+  private fillSilence: boolean;
+
+  constructor(options: {processorOptions: CaptureProcessorOptions}) {
+    super();
+    const {targetRate, frameMs, fillSilence = false} = options.processorOptions;
+    this.resampler = new StreamingResampler(sampleRate, targetRate);
+    this.resampled = new Float32Array(this.resampler.maxOutput(SILENCE.length));
+    this.frame = new Float32Array(Math.round((targetRate * frameMs) / 1000));
+    this.fillSilence = fillSilence;
+  }
+
+  process(inputs: Float32Array[][]) {
+    // Inputs have no channels while no upstream node is active.
+    const input = inputs[0]?.[0] ?? (this.fillSilence ? SILENCE : undefined);
+    if (!input) return true;
+
+    if (this.resampled.length < this.resampler.maxOutput(input.length)) {
+      this.resampled = new Float32Array(this.resampler.maxOutput(input.length));
+    }
+    const n = this.resampler.process(input, this.resampled);
+    for (let i = 0; i < n; i++) this.push(this.resampled[i]);
+    return true;
+  }
+
+  private push(sample: number) {
+    this.frame[this.frameLength++] = sample;
+    if (this.frameLength === this.frame.length) {
+      const frame = this.frame;
+      this.port.postMessage(frame, [frame.buffer]);
+      this.frame = new Float32Array(frame.length);
+      this.frameLength = 0;
+    }
+  }
+}
+
+registerProcessor('capture-processor', CaptureProcessor);
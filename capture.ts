@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import processorUrl from './capture-processor.ts?worker&url';
+import type {CaptureProcessorOptions} from './capture-processor';
+
+/**
+ * Audio capture off the main thread. Pulls audio from `source` through an
+ * AudioWorklet and hands `onFrame` mono frames of `frameMs` at `targetRate`
+ * (16 kHz microphone audio by default).
+ */
+export class AudioCapture {
+  private node?: AudioWorkletNode;
+  private source?: AudioNode;
+  private static loaded = new WeakMap<BaseAudioContext, Promise<void>>();
+
+  constructor(
+    private context: AudioContext,
+    private onFrame: (pcm: Float32Array) => void,
+    private options: CaptureProcessorOptions = {targetRate: 16000, frameMs: 32},
+  ) {}
+
+  get targetRate() {
+    return this.options.targetRate;
+  }
+
+  async start(source: AudioNode) {
+    if (this.node) return;
+    await AudioCapture.load(this.context);
+
+    this.node = new AudioWorkletNode(this.context, 'capture-processor', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: this.options,
+    });
+    this.node.port.onmessage = (e: MessageEvent<Float32Array>) =>
+      this.onFrame(e.data);
+
+    this.source = source;
+    source.connect(this.node);
+  }
+
+  stop() {
+    if (!this.node) return;
+    this.source?.disconnect(this.node);
+    this.node.port.onmessage = null;
+    this.node = undefined;
+    this.source = undefined;
+  }
+
+  private static load(context: BaseAudioContext) {
+    let loaded = AudioCapture.loaded.get(context);
+    if (!loaded) {
+      loaded = context.audioWorklet.addModule(processorUrl);
+      AudioCapture.loaded.set(context, loaded);
+    }
+    return loaded;
+  }
+}
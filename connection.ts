@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import {LiveTransport, LiveTransportSession} from './transport';
+
+/**
+ *   idle ─open()─▶ connecting ─▶ open ─(drop / goAway)─▶ reconnecting ─▶ open
+ *                      │                                      │
+ *                      └──────────────▶ failed ◀──────────────┘ (retries spent)
+ *   any ─close()─▶ closed
+ */
+export type ConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'closed'
+  | 'failed';
+
+export interface ConnectionStateDetail {
+  state: ConnectionState;
+  reason?: string;
+  attempt?: number;
+}
+
+export interface LiveConnectionOptions {
+  /** Model and config, built fresh for every (re)connect. */
+  params: () => {model: string; config: LiveConnectConfig};
+  onmessage: (message: LiveServerMessage) => void;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Mic frames kept while reconnecting; older frames are dropped. */
+  maxBufferedInputs?: number;
+}
+
+/**
+ * Owns the Live session: reconnects with backoff when the socket drops,
+ * follows `goAway` notices, and resumes the conversation through the
+ * session-resumption handle. Fires `statechange` with a
+ * `ConnectionStateDetail`.
+ */
+export class LiveConnection extends EventTarget {
+  private _state: ConnectionState = 'idle';
+  private session?: LiveTransportSession;
+  // Incremented per connect attempt so callbacks of replaced sessions are ignored.
+  private generation = 0;
+  private attempt = 0;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private resumptionHandle?: string;
+  private pendingInputs: LiveSendRealtimeInputParameters[] = [];
+
+  constructor(
+    private transport: LiveTransport,
+    private options: LiveConnectionOptions,
+  ) {
+    super();
+  }
+
+  get state() {
+    return this._state;
+  }
+
+  /** Start a new conversation. */
+  open() {
+    this.teardown();
+    this.resumptionHandle = undefined;
+    this.attempt = 0;
+    this.connect('connecting');
+  }
+
+  /**
+   * Move to a new socket, resuming the conversation if possible. Used to
+   * apply config changes to a running session.
+   */
+  reconnect(reason = 'Reconnect requested') {
+    if (this._state === 'idle' || this._state === 'closed') return;
+    this.attempt = 0;
+    this.reconnectNow(reason);
+  }
+
+  /** Close for good; no reconnect. */
+  close(reason = 'Closed by user') {
+    this.teardown();
+    this.resumptionHandle = undefined;
+    this.setState('closed', reason);
+  }
+
+  /** Mic audio: buffered while reconnecting, dropped when not connected. */
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    if (this._state === 'open') {
+      this.session!.sendRealtimeInput(params);
+    } else if (this._state === 'reconnecting') {
+      this.pendingInputs.push(params);
+      const max = this.options.maxBufferedInputs ?? 64;
+      if (this.pendingInputs.length > max) this.pendingInputs.shift();
+    }
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    if (!this.ensureOpen('client content')) return false;
+    this.session!.sendClientContent(params);
+    return true;
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    if (!this.ensureOpen('tool response')) return false;
+    this.session!.sendToolResponse(params);
+    return true;
+  }
+
+  private ensureOpen(what: string) {
+    if (this._state === 'open') return true;
+    console.warn(`Dropping ${what}: connection is ${this._state}`);
+    return false;
+  }
+
+  private async connect(state: 'connecting' | 'reconnecting') {
+    const generation = ++this.generation;
+    const current = () => generation === this.generation;
+    this.setState(state, undefined, this.attempt);
+
+    const {model, config} = this.options.params();
+
+    let session: LiveTransportSession;
+    try {
+      session = await this.transport.connect({
+        model,
+        config: {...config, sessionResumption: {handle: this.resumptionHandle}},
+        callbacks: {
+          onmessage: (message: LiveServerMessage) => {
+            if (current()) this.handleMessage(message);
+          },
+          onerror: (e: ErrorEvent) => {
+            if (current()) console.error('Live session error:', e.message);
+          },
+          onclose: (e: CloseEvent) => {
+            if (current()) this.handleDrop(e.reason || `code ${e.code}`);
+          },
+        },
+      });
+    } catch (e) {
+      if (current()) this.handleDrop(String(e?.message ?? e));
+      return;
+    }
+
+    if (!current()) {
+      session.close();
+      return;
+    }
+    this.session = session;
+    this.attempt = 0;
+    this.setState('open');
+    this.flushPendingInputs();
+  }
+
+  private handleMessage(message: LiveServerMessage) {
+    const update = message.sessionResumptionUpdate;
+    if (update?.resumable && update.newHandle) {
+      this.resumptionHandle = update.newHandle;
+    }
+
+    if (message.goAway) {
+      // The server is about to drop us; move to a fresh socket now while the
+      // handle is still valid instead of waiting for the close.
+      this.reconnectNow(`Server going away (${message.goAway.timeLeft ?? '?'})`);
+      return;
+    }
+
+    this.options.onmessage(message);
+  }
+
+  private handleDrop(reason: string) {
+    // A failed connect can report through both the rejection and onclose.
+    this.generation++;
+    this.session = undefined;
+
+    const max = this.options.maxAttempts ?? 6;
+    if (this.attempt >= max) {
+      this.teardown();
+      this.setState('failed', reason);
+      return;
+    }
+    // A stale handle makes every resume attempt fail; fall back to a new
+    // conversation after the first unsuccessful one.
+    if (this.attempt > 0) this.resumptionHandle = undefined;
+
+    const base = this.options.baseDelayMs ?? 500;
+    const cap = this.options.maxDelayMs ?? 10000;
+    const delay = Math.min(cap, base * 2 ** this.attempt) * (0.5 + Math.random() / 2);
+    this.attempt++;
+    this.setState('reconnecting', reason, this.attempt);
+    this.retryTimer = setTimeout(() => this.connect('reconnecting'), delay);
+  }
+
+  private reconnectNow(reason: string) {
+    this.teardown();
+    this.setState('reconnecting', reason, this.attempt);
+    this.connect('reconnecting');
+  }
+
+  private flushPendingInputs() {
+    const pending = this.pendingInputs;
+    this.pendingInputs = [];
+    for (const params of pending) this.session!.sendRealtimeInput(params);
+  }
+
+  /** Forget the current session without touching the resumption handle. */
+  private teardown() {
+    clearTimeout(this.retryTimer);
+    this.generation++;
+    this.session?.close();
+    this.session = undefined;
+    this.pendingInputs = [];
+  }
+
+  private setState(state: ConnectionState, reason?: string, attempt?: number) {
+    this._state = state;
+    this.dispatchEvent(
+      new CustomEvent<ConnectionStateDetail>('statechange', {
+        detail: {state, reason, attempt},
+      }),
+    );
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {LiveServerContent} from '@google/genai';
+
+export type Speaker = 'user' | 'assistant';
+
+export interface Turn {
+  id: number;
+  speaker: Speaker;
+  text: string;
+  startedAt: Date;
+  endedAt?: Date;
+  /** No more text will be added to this turn. */
+  final: boolean;
+  /** The assistant was cut off before finishing this turn. */
+  interrupted: boolean;
+}
+
+/**
+ * Turn-based record of a session, assembled from the partial input/output
+ * transcription events of the Live API. Fires `change` on every update.
+ */
+export class Conversation extends EventTarget {
+  private _turns: Turn[] = [];
+  private nextId = 1;
+
+  get turns(): readonly Turn[] {
+    return this._turns;
+  }
+
+  /** Feed one `serverContent` message. */
+  handleServerContent(content: LiveServerContent) {
+    if (content.inputTranscription?.text) {
+      this.append('user', content.inputTranscription.text);
+    }
+    if (content.inputTranscription?.finished) this.close('user');
+
+    if (content.outputTranscription?.text) {
+      this.append('assistant', content.outputTranscription.text);
+    }
+    if (content.outputTranscription?.finished) this.close('assistant');
+
+    // Replies in text mode arrive as parts rather than transcriptions.
+    for (const part of content.modelTurn?.parts ?? []) {
+      if (part.text && !part.thought) this.append('assistant', part.text);
+    }
+
+    if (content.interrupted) this.interrupt();
+    if (content.turnComplete) this.close('assistant');
+  }
+
+  /** Add transcribed text, continuing the open turn of the same speaker. */
+  append(speaker: Speaker, text: string) {
+    const turn = this.openTurn(speaker) ?? this.startTurn(speaker);
+    turn.text += text;
+    this.changed();
+  }
+
+  /** Add a complete turn, e.g. a typed message. */
+  addTurn(speaker: Speaker, text: string) {
+    this.close(speaker, false);
+    const turn = this.startTurn(speaker);
+    turn.text = text;
+    turn.final = true;
+    turn.endedAt = turn.startedAt;
+    this.changed();
+  }
+
+  private startTurn(speaker: Speaker) {
+    // A new speaker implicitly ends whatever the other side was saying.
+    this.close(speaker === 'user' ? 'assistant' : 'user', false);
+    const turn: Turn = {
+      id: this.nextId++,
+      speaker,
+      text: '',
+      startedAt: new Date(),
+      final: false,
+      interrupted: false,
+    };
+    this._turns.push(turn);
+    return turn;
+  }
+
+  /** Mark the assistant's current turn as cut off by the user. */
+  interrupt() {
+    const turn = this.openTurn('assistant');
+    if (!turn) return;
+    turn.interrupted = true;
+    this.close('assistant');
+  }
+
+  clear() {
+    this._turns = [];
+    this.changed();
+  }
+
+  private close(speaker: Speaker, notify = true) {
+    const turn = this.openTurn(speaker);
+    if (!turn) return;
+    turn.final = true;
+    turn.endedAt = new Date();
+    if (notify) this.changed();
+  }
+
+  private openTurn(speaker: Speaker) {
+    for (let i = this._turns.length - 1; i >= 0; i--) {
+      const turn = this._turns[i];
+      if (turn.speaker === speaker) return turn.final ? undefined : turn;
+    }
+    return undefined;
+  }
+
+  private changed() {
+    this.dispatchEvent(new Event('change'));
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {UserSettings} from './settings';
+
+type SinkAudioContext = AudioContext & {setSinkId?(sinkId: string): Promise<void>};
+
+/** Whether the browser can send an AudioContext to a chosen speaker. */
+export const canChooseOutput = () =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+/**
+ * The audio devices plugged in right now. Labels stay empty until the page
+ * has had microphone access, so call `refresh` again after `getUserMedia`.
+ *
+ * @fires change - The list changed, e.g. a headset was plugged in or out.
+ */
+export class AudioDevices extends EventTarget {
+  private _inputs: MediaDeviceInfo[] = [];
+  private _outputs: MediaDeviceInfo[] = [];
+
+  constructor() {
+    super();
+    navigator.mediaDevices?.addEventListener('devicechange', () => this.refresh());
+  }
+
+  get inputs(): readonly MediaDeviceInfo[] {
+    return this._inputs;
+  }
+
+  get outputs(): readonly MediaDeviceInfo[] {
+    return this._outputs;
+  }
+
+  async refresh() {
+    const devices = (await navigator.mediaDevices?.enumerateDevices()) ?? [];
+    this._inputs = devices.filter((d) => d.kind === 'audioinput');
+    this._outputs = devices.filter((d) => d.kind === 'audiooutput');
+    this.dispatchEvent(new Event('change'));
+  }
+
+  /** `deviceId` if that input is present, else `''` for the default. */
+  input(deviceId: string) {
+    return this._inputs.some((d) => d.deviceId === deviceId) ? deviceId : '';
+  }
+
+  /** `deviceId` if that output is present, else `''` for the default. */
+  output(deviceId: string) {
+    return this._outputs.some((d) => d.deviceId === deviceId) ? deviceId : '';
+  }
+}
+
+/** `getUserMedia` constraints for the microphone settings. */
+export function micConstraints(
+  deviceId: string,
+  {echoCancellation, noiseSuppression, autoGainControl}: UserSettings,
+): MediaStreamConstraints {
+  return {
+    audio: {
+      deviceId: deviceId ? {exact: deviceId} : undefined,
+      echoCancellation,
+      noiseSuppression,
+      autoGainControl,
+    },
+    video: false,
+  };
+}
+
+/** Play `context` on `deviceId` (`''` is the system default). */
+export async function setOutputDevice(context: AudioContext, deviceId: string) {
+  const sink = context as SinkAudioContext;
+  if (!sink.setSinkId) throw new Error('This browser cannot choose a speaker');
+  await sink.setSinkId(deviceId);
+}
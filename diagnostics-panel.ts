@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {LitElement, css, html} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {Locale, messages} from './i18n';
+import {MetricsSnapshot, percentile} from './metrics';
+
+const ms = (value?: number) => (value === undefined ? '–' : `${Math.round(value)} ms`);
+
+function duration(fromMs?: number) {
+  if (fromMs === undefined) return '–';
+  const s = Math.floor((performance.now() - fromMs) / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Live session metrics, for support and for testing on real phones.
+ *
+ * @fires download-log - The user wants the buffered metrics as a file.
+ * @fires download-sessions - The user wants the recorded sessions as a file.
+ * @fires close - The user dismissed the panel.
+ */
+@customElement('gdm-diagnostics-panel')
+export class GdmDiagnosticsPanel extends LitElement {
+  @property({attribute: false}) metrics?: MetricsSnapshot;
+  @property() connectionState = '';
+  /** Whether sessions are being recorded, so there are some to download. */
+  @property({type: Boolean}) canDownloadSessions = false;
+  @property() locale: Locale = 'en-IN';
+
+  // Keeps the session duration ticking.
+  private timer?: ReturnType<typeof setInterval>;
+
+  static styles = css`
+    :host {
+      display: block;
+      color: white;
+      font: 12px/1.4 system-ui, sans-serif;
+      background: rgba(20, 20, 20, 0.9);
+      border: 1px solid rgba(255, 255, 255, 0.15);
+      border-radius: 12px;
+      padding: 12px;
+      min-width: 240px;
+    }
+
+    header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 6px;
+      margin-bottom: 8px;
+    }
+
+    h2 {
+      font-size: 14px;
+      margin: 0;
+      flex: 1;
+    }
+
+    button {
+      font: inherit;
+      color: inherit;
+      background: rgba(255, 255, 255, 0.08);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      padding: 4px 8px;
+      cursor: pointer;
+    }
+
+    dl {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 2px 12px;
+      margin: 0;
+    }
+
+    dt {
+      opacity: 0.7;
+    }
+
+    dd {
+      margin: 0;
+      font-variant-numeric: tabular-nums;
+      overflow-wrap: anywhere;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.timer = setInterval(() => this.requestUpdate(), 1000);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    clearInterval(this.timer);
+  }
+
+  private emit(type: string) {
+    this.dispatchEvent(new CustomEvent(type, {bubbles: true}));
+  }
+
+  render() {
+    const m = this.metrics;
+    const latencies = m?.latenciesMs ?? [];
+    const t = messages(this.locale);
+    return html`
+      <header>
+        <h2>${t.diagnostics}</h2>
+        <button @click=${() => this.emit('download-log')}>${t.downloadLog}</button>
+        ${this.canDownloadSessions
+          ? html`<button @click=${() => this.emit('download-sessions')}>
+              ${t.downloadSessions}
+            </button>`
+          : ''}
+        <button @click=${() => this.emit('close')}>${t.close}</button>
+      </header>
+      <dl>
+        <dt>${t.connection}</dt>
+        <dd>${this.connectionState}</dd>
+        <dt>${t.session}</dt>
+        <dd>${m?.session.slice(0, 8) ?? '–'}</dd>
+        <dt>${t.duration}</dt>
+        <dd>${duration(m?.startedAt)}</dd>
+        <dt>${t.connectTime}</dt>
+        <dd>${ms(m?.connectMs)}</dd>
+        <dt>${t.replyLatency}</dt>
+        <dd>${ms(latencies.at(-1))}</dd>
+        <dt>${t.medianP90}</dt>
+        <dd>${ms(percentile(latencies, 50))} / ${ms(percentile(latencies, 90))}</dd>
+        <dt>${t.underruns}</dt>
+        <dd>${m?.underruns ?? 0} (${ms(m?.underrunMs)})</dd>
+        <dt>${t.interruptions}</dt>
+        <dd>${m?.interruptions ?? 0}</dd>
+        <dt>${t.lastError}</dt>
+        <dd>${m?.lastError ?? '–'}</dd>
+        <dt>${t.lastClose}</dt>
+        <dd>${m?.lastClose ?? '–'}</dd>
+      </dl>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-diagnostics-panel': GdmDiagnosticsPanel;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import catalog from './directory-catalog.json';
+
+/** HelpOne listing categories the assistant can search. */
+export const CATEGORIES = [
+  'doctors',
+  'restaurants',
+  'hotels',
+  'beauty-spa',
+  'rent-hire',
+  'dentists',
+  'gym',
+  'packers-movers',
+  'contractors',
+  'pet-shop',
+  'home-decor',
+  'wedding-planning',
+  'education',
+  'driving-schools',
+  'event-organisers',
+  'real-estate',
+  'hospitals',
+  'loans',
+] as const;
+
+export type Category = (typeof CATEGORIES)[number];
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface Listing {
+  id: string;
+  name: string;
+  category: Category;
+  rating: number;
+  reviewCount: number;
+  address: string;
+  phone?: string;
+  hours?: string;
+  description?: string;
+  location: GeoPoint;
+  /** Filled in relative to the search origin, if one was given. */
+  distanceKm?: number;
+}
+
+export interface SearchParams {
+  category?: string;
+  query?: string;
+  radiusKm?: number;
+  near?: GeoPoint;
+  limit?: number;
+}
+
+/**
+ * Source of HelpOne directory listings. The bundled catalog is used for
+ * development and tests; production points at the HelpOne backend.
+ */
+export interface DirectoryProvider {
+  search(params: SearchParams): Promise<Listing[]>;
+  getListing(id: string, near?: GeoPoint): Promise<Listing | undefined>;
+}
+
+const DEFAULT_RADIUS_KM = 10;
+const DEFAULT_LIMIT = 5;
+
+/** Great-circle distance in kilometres. */
+function distanceKm(a: GeoPoint, b: GeoPoint) {
+  const rad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * rad;
+  const dLon = (b.lon - a.lon) * rad;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+function withDistance(listing: Listing, near?: GeoPoint): Listing {
+  if (!near) return {...listing};
+  const d = distanceKm(near, listing.location);
+  return {...listing, distanceKm: Math.round(d * 10) / 10};
+}
+
+/** In-memory provider over a static catalog (defaults to the bundled one). */
+export class CatalogDirectoryProvider implements DirectoryProvider {
+  constructor(private listings: Listing[] = catalog.listings as Listing[]) {}
+
+  async search({category, query, radiusKm, near, limit}: SearchParams) {
+    const q = query?.trim().toLowerCase();
+    const radius = radiusKm ?? DEFAULT_RADIUS_KM;
+    return this.listings
+      .filter((l) => !category || l.category === category)
+      .filter(
+        (l) =>
+          !q ||
+          l.name.toLowerCase().includes(q) ||
+          l.description?.toLowerCase().includes(q),
+      )
+      .map((l) => withDistance(l, near))
+      .filter((l) => l.distanceKm === undefined || l.distanceKm <= radius)
+      .sort(
+        (a, b) =>
+          (a.distanceKm ?? 0) - (b.distanceKm ?? 0) || b.rating - a.rating,
+      )
+      .slice(0, limit ?? DEFAULT_LIMIT);
+  }
+
+  async getListing(id: string, near?: GeoPoint) {
+    const listing = this.listings.find((l) => l.id === id);
+    return listing && withDistance(listing, near);
+  }
+}
+
+/**
+ * Provider backed by the HelpOne directory service.
+ *
+ *   GET {baseUrl}/listings?category=&q=&radiusKm=&lat=&lon=&limit=
+ *   GET {baseUrl}/listings/{id}?lat=&lon=
+ */
+export class HttpDirectoryProvider implements DirectoryProvider {
+  constructor(private baseUrl: string) {}
+
+  async search({category, query, radiusKm, near, limit}: SearchParams) {
+    const params = new URLSearchParams();
+    if (category) params.set('category', category);
+    if (query) params.set('q', query);
+    params.set('radiusKm', String(radiusKm ?? DEFAULT_RADIUS_KM));
+    params.set('limit', String(limit ?? DEFAULT_LIMIT));
+    if (near) {
+      params.set('lat', String(near.lat));
+      params.set('lon', String(near.lon));
+    }
+    const data = await this.get(`/listings?${params}`);
+    return (data.listings ?? []) as Listing[];
+  }
+
+  async getListing(id: string, near?: GeoPoint) {
+    const params = near ? `?lat=${near.lat}&lon=${near.lon}` : '';
+    try {
+      return (await this.get(
+        `/listings/${encodeURIComponent(id)}${params}`,
+      )) as Listing;
+    } catch (e) {
+      if (e instanceof DirectoryError && e.status === 404) return undefined;
+      throw e;
+    }
+  }
+
+  private async get(path: string) {
+    const res = await fetch(this.baseUrl.replace(/\/$/, '') + path);
+    if (!res.ok) {
+      throw new DirectoryError(`Directory request failed: ${res.status}`, res.status);
+    }
+    return res.json();
+  }
+}
+
+export class DirectoryError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'DirectoryError';
+  }
+}
+
+/** HTTP backend when a directory URL is configured, bundled catalog otherwise. */
+export function createDirectoryProvider(
+  baseUrl = process.env.HELPONE_DIRECTORY_URL,
+): DirectoryProvider {
+  return baseUrl
+    ? new HttpDirectoryProvider(baseUrl)
+    : new CatalogDirectoryProvider();
+}
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const EMOTIONS = ['neutral', 'happy', 'concerned', 'surprised'] as const;
+export type Emotion = (typeof EMOTIONS)[number];
+
+export type MorphWeights = Record<string, number>;
+
+/** ARKit blend shapes making up each emotion at full intensity. */
+export const EMOTION_MORPHS: Record<Emotion, MorphWeights> = {
+  neutral: {},
+  happy: {
+    mouthSmileLeft: 0.6,
+    mouthSmileRight: 0.6,
+    cheekSquintLeft: 0.5,
+    cheekSquintRight: 0.5,
+    eyeSquintLeft: 0.2,
+    eyeSquintRight: 0.2,
+  },
+  concerned: {
+    browInnerUp: 0.7,
+    browDownLeft: 0.2,
+    browDownRight: 0.2,
+    mouthFrownLeft: 0.35,
+    mouthFrownRight: 0.35,
+    mouthPressLeft: 0.2,
+    mouthPressRight: 0.2,
+  },
+  surprised: {
+    browInnerUp: 0.8,
+    browOuterUpLeft: 0.7,
+    browOuterUpRight: 0.7,
+    eyeWideLeft: 0.7,
+    eyeWideRight: 0.7,
+    jawOpen: 0.15,
+  },
+};
+
+/** Every morph any emotion touches, so a fading emotion returns them to 0. */
+const ALL_MORPHS = [...new Set(EMOTIONS.flatMap((e) => Object.keys(EMOTION_MORPHS[e])))];
+
+export function isEmotion(value: unknown): value is Emotion {
+  return EMOTIONS.includes(value as Emotion);
+}
+
+/**
+ * Cross-fades between emotion overlays. `set` picks the target; `update`
+ * returns the blended morph weights for this frame.
+ */
+export class ExpressionBlender {
+  private current: MorphWeights = Object.fromEntries(ALL_MORPHS.map((m) => [m, 0]));
+  private _emotion: Emotion = 'neutral';
+  private intensity = 0;
+  private until = Infinity;
+
+  constructor(private fadeSeconds = 0.35) {}
+
+  get emotion() {
+    return this._emotion;
+  }
+
+  /**
+   * Show `emotion` at `intensity` (0..1). After `holdMs` it fades back to
+   * neutral; `0` holds until the next call.
+   */
+  set(emotion: Emotion, intensity = 1, holdMs = 0) {
+    this._emotion = emotion;
+    this.intensity = Math.min(1, Math.max(0, intensity));
+    this.until = holdMs > 0 ? performance.now() + holdMs : Infinity;
+  }
+
+  update(dt: number): Readonly<MorphWeights> {
+    if (performance.now() >= this.until) this.set('neutral');
+    const target = EMOTION_MORPHS[this._emotion];
+    const k = 1 - Math.exp(-dt / this.fadeSeconds);
+    for (const morph of ALL_MORPHS) {
+      const to = (target[morph] ?? 0) * this.intensity;
+      this.current[morph] += (to - this.current[morph]) * k;
+    }
+    return this.current;
+  }
+}
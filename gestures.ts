@@ -0,0 +1,283 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as THREE from 'three';
+import {GLTFLoader} from 'three/addons/loaders/GLTFLoader.js';
+
+export const GESTURES = ['wave', 'nod', 'point', 'shrug'] as const;
+export type Gesture = (typeof GESTURES)[number];
+
+export function isGesture(value: unknown): value is Gesture {
+  return GESTURES.includes(value as Gesture);
+}
+
+export interface GestureOptions {
+  /** Repeat until `stop` instead of playing once. */
+  loop?: boolean;
+  /** How strongly the clip overrides the rest pose (0..1). */
+  weight?: number;
+  /** Cross-fade in and out time. */
+  fadeMs?: number;
+}
+
+/** Clip name → gesture, for the names common animation packs use. */
+const CLIP_ALIASES: Record<string, Gesture> = {
+  waving: 'wave',
+  'head nod yes': 'nod',
+  nodding: 'nod',
+  pointing: 'point',
+  shrugging: 'shrug',
+};
+
+function gestureName(clip: string) {
+  // Mixamo exports clips as `Armature|mixamo.com|Layer0`-style paths.
+  const name = clip.split('|').pop()!.trim().toLowerCase();
+  return CLIP_ALIASES[name] ?? name;
+}
+
+/** A small yes-nod on the head bone, for models that ship no clips. */
+function nodClip(head: THREE.Object3D) {
+  const rest = head.quaternion.clone();
+  const down = rest.clone().multiply(
+    new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), 0.25),
+  );
+  const keys = [rest, down, rest, down, rest];
+  const values = keys.flatMap((q) => q.toArray());
+  return new THREE.AnimationClip('nod', 1.2, [
+    new THREE.QuaternionKeyframeTrack(
+      `${head.name}.quaternion`,
+      [0, 0.3, 0.6, 0.9, 1.2],
+      values,
+    ),
+  ]);
+}
+
+/** A direction in the model's space: +x is its left, +y up, +z forward. */
+type Direction = [x: number, y: number, z: number];
+
+/** A bone and the child it points at. */
+type Limb = [bone: THREE.Object3D, child: THREE.Object3D];
+
+/**
+ * Local rotation of `bone` that points its `child` along `direction`, with
+ * the bones above it as they are now.
+ */
+function aim(root: THREE.Object3D, [bone, child]: Limb, direction: Direction) {
+  root.updateWorldMatrix(true, true);
+  const from = child
+    .getWorldPosition(new THREE.Vector3())
+    .sub(bone.getWorldPosition(new THREE.Vector3()))
+    .normalize();
+  const to = new THREE.Vector3(...direction)
+    .applyQuaternion(root.getWorldQuaternion(new THREE.Quaternion()))
+    .normalize();
+  const turn = new THREE.Quaternion().setFromUnitVectors(from, to);
+  // Turning the bone in world space, expressed in its parent's space.
+  const parent = bone.parent!.getWorldQuaternion(new THREE.Quaternion());
+  return parent.clone().invert().multiply(turn).multiply(parent).multiply(bone.quaternion);
+}
+
+/**
+ * A clip that poses `limbs` (parents first) at `times`: each key gives the
+ * direction of every limb, or is undefined for the rest pose.
+ */
+function limbClip(
+  name: string,
+  root: THREE.Object3D,
+  limbs: Limb[],
+  times: number[],
+  keys: (Direction[] | undefined)[],
+) {
+  const rest = limbs.map(([bone]) => bone.quaternion.clone());
+  const values = limbs.map(() => [] as number[]);
+  for (const key of keys) {
+    limbs.forEach((limb, i) => {
+      if (key) limb[0].quaternion.copy(aim(root, limb, key[i]));
+      values[i].push(...limb[0].quaternion.toArray());
+    });
+    limbs.forEach(([bone], i) => bone.quaternion.copy(rest[i]));
+  }
+  root.updateWorldMatrix(true, true);
+  return new THREE.AnimationClip(
+    name,
+    times.at(-1)!,
+    limbs.map(
+      ([bone], i) =>
+        new THREE.QuaternionKeyframeTrack(`${bone.name}.quaternion`, times, values[i]),
+    ),
+  );
+}
+
+/** Right forearm up, waving side to side. */
+function waveClip(root: THREE.Object3D, arm: Limb, forearm: Limb) {
+  const raised: Direction = [-0.75, -0.35, 0.3];
+  return limbClip('wave', root, [arm, forearm], [0, 0.35, 0.65, 0.95, 1.25, 1.55, 1.95], [
+    undefined,
+    [raised, [-0.3, 1, 0.25]],
+    [raised, [-0.6, 1, 0.25]],
+    [raised, [0, 1, 0.25]],
+    [raised, [-0.6, 1, 0.25]],
+    [raised, [-0.3, 1, 0.25]],
+    undefined,
+  ]);
+}
+
+/** Right arm held out forward, towards the user. */
+function pointClip(root: THREE.Object3D, arm: Limb, forearm: Limb) {
+  const out: Direction[] = [
+    [-0.35, -0.25, 1],
+    [-0.15, 0.05, 1],
+  ];
+  return limbClip('point', root, [arm, forearm], [0, 0.4, 1.4, 1.9], [undefined, out, out, undefined]);
+}
+
+/** Shoulders up, forearms out with the hands open. */
+function shrugClip(root: THREE.Object3D, [left, right]: [Limb, Limb, Limb][]) {
+  const up: Direction[] = [
+    [1, 0.35, 0],
+    [0.3, -1, 0.1],
+    [0.55, -0.1, 1],
+    [-1, 0.35, 0],
+    [-0.3, -1, 0.1],
+    [-0.55, -0.1, 1],
+  ];
+  return limbClip('shrug', root, [...left, ...right], [0, 0.35, 0.9, 1.4], [
+    undefined,
+    up,
+    up,
+    undefined,
+  ]);
+}
+
+/**
+ * Keyframed gestures layered over the procedural avatar motion. Clips come
+ * from the model itself or from separate animation GLBs. Only bone rotations
+ * are kept: the face stays with lip sync and expressions, and the root stays
+ * with the mode animations.
+ */
+export class GestureLayer {
+  private mixer: THREE.AnimationMixer;
+  private clips = new Map<string, THREE.AnimationClip>();
+  // Objects each clip animates, so procedural motion can stay off them.
+  private targets = new Map<string, Set<string>>();
+  private active = new Set<THREE.AnimationAction>();
+  private fadeMs = new WeakMap<THREE.AnimationAction, number>();
+
+  constructor(private root: THREE.Object3D, clips: THREE.AnimationClip[] = []) {
+    this.mixer = new THREE.AnimationMixer(root);
+    this.mixer.addEventListener('finished', (e: any) => {
+      e.action.fadeOut((this.fadeMs.get(e.action) ?? 250) / 1000);
+    });
+    this.addClips(clips);
+  }
+
+  get names() {
+    return [...this.clips.keys()];
+  }
+
+  has(name: string) {
+    return this.clips.has(name);
+  }
+
+  addClips(clips: THREE.AnimationClip[]) {
+    for (const clip of clips) {
+      const tracks = clip.tracks.flatMap((t) => this.retarget(t) ?? []);
+      if (!tracks.length) continue;
+      const name = gestureName(clip.name);
+      this.clips.set(name, new THREE.AnimationClip(name, clip.duration, tracks));
+      this.targets.set(
+        name,
+        new Set(tracks.map((t) => THREE.PropertyBinding.parseTrackName(t.name).nodeName)),
+      );
+    }
+  }
+
+  /** Point a rotation track at this model's bone, tolerating the `mixamorig` prefix. */
+  private retarget(track: THREE.KeyframeTrack) {
+    const {nodeName, propertyName} = THREE.PropertyBinding.parseTrackName(track.name);
+    if (propertyName !== 'quaternion') return undefined;
+    const bare = nodeName.replace(/^mixamorig:?/, '');
+    const node = [nodeName, bare, `mixamorig${bare}`]
+      .map((n) => this.root.getObjectByName(n))
+      .find(Boolean);
+    if (!node) return undefined;
+    const copy = track.clone();
+    copy.name = `${node.name}.quaternion`;
+    return copy;
+  }
+
+  /** Add the clips of an animation-only GLB. */
+  async load(url: string) {
+    const gltf = await new GLTFLoader().loadAsync(url);
+    this.addClips(gltf.animations);
+  }
+
+  /**
+   * Generate stand-ins for gestures no clip provides, where the rig allows:
+   * the arm ones need Mixamo-named bones, as Ready Player Me avatars have.
+   */
+  addFallbacks(head?: THREE.Object3D) {
+    if (head && !this.has('nod')) this.addClips([nodClip(head)]);
+    const [left, right] = ['Left', 'Right'].map((side) => {
+      const [shoulder, arm, forearm, hand] = ['Shoulder', 'Arm', 'ForeArm', 'Hand'].map((b) =>
+        this.bone(side + b),
+      );
+      return shoulder && arm && forearm && hand
+        ? ([[shoulder, arm], [arm, forearm], [forearm, hand]] as [Limb, Limb, Limb])
+        : undefined;
+    });
+    if (right && !this.has('wave')) this.addClips([waveClip(this.root, right[1], right[2])]);
+    if (right && !this.has('point')) this.addClips([pointClip(this.root, right[1], right[2])]);
+    if (left && right && !this.has('shrug')) this.addClips([shrugClip(this.root, [left, right])]);
+  }
+
+  private bone(name: string) {
+    return this.root.getObjectByName(name) ?? this.root.getObjectByName(`mixamorig${name}`);
+  }
+
+  /** Start a gesture; returns false if there's no clip for it. */
+  play(name: string, {loop = false, weight = 1, fadeMs = 250}: GestureOptions = {}) {
+    const clip = this.clips.get(name);
+    if (!clip) return false;
+    const action = this.mixer.clipAction(clip);
+    this.fadeMs.set(action, fadeMs);
+    action.reset();
+    action.setLoop(loop ? THREE.LoopRepeat : THREE.LoopOnce, Infinity);
+    action.clampWhenFinished = true;
+    action.setEffectiveWeight(THREE.MathUtils.clamp(weight, 0, 1));
+    action.fadeIn(fadeMs / 1000).play();
+    this.active.add(action);
+    return true;
+  }
+
+  stop(name: string, fadeMs = 250) {
+    const clip = this.clips.get(name);
+    if (clip) this.mixer.existingAction(clip)?.fadeOut(fadeMs / 1000);
+  }
+
+  /** Whether a playing or fading gesture currently moves `object`. */
+  drives(object: THREE.Object3D) {
+    for (const action of this.active) {
+      if (this.targets.get(action.getClip().name)!.has(object.name)) return true;
+    }
+    return false;
+  }
+
+  update(dt: number) {
+    this.mixer.update(dt);
+    // A faded-out action still pins its bones; stopping it hands them back.
+    for (const action of this.active) {
+      if (!action.enabled) {
+        action.stop();
+        this.active.delete(action);
+      }
+    }
+  }
+
+  dispose() {
+    this.mixer.stopAllAction();
+    this.active.clear();
+    this.mixer.uncacheRoot(this.root);
+  }
+}
@@ -0,0 +1,614 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Languages HelpOne customers use; BCP-47 codes the Live API speaks. */
+export type Locale = 'en-IN' | 'hi-IN' | 'mr-IN' | 'ta-IN';
+
+export interface LanguageInfo {
+  /** English name, for instructions to the model. */
+  name: string;
+  /** Name in the language itself, for the picker. */
+  nativeName: string;
+  /** Prebuilt voice that suits the language; the profile's voice if unset. */
+  voice?: string;
+}
+
+export const LANGUAGES: Record<Locale, LanguageInfo> = {
+  'en-IN': {name: 'English', nativeName: 'English'},
+  'hi-IN': {name: 'Hindi', nativeName: 'हिन्दी', voice: 'Kore'},
+  'mr-IN': {name: 'Marathi', nativeName: 'मराठी', voice: 'Aoede'},
+  'ta-IN': {name: 'Tamil', nativeName: 'தமிழ்', voice: 'Leda'},
+};
+
+export function isLocale(value: string): value is Locale {
+  return value in LANGUAGES;
+}
+
+/** Added to the persona so the model answers in the chosen language. */
+export function languageInstruction(locale: Locale) {
+  const {name, nativeName} = LANGUAGES[locale];
+  const label = name === nativeName ? name : `${name} (${nativeName})`;
+  return (
+    `Speak ${label}. If the user speaks another language, answer in theirs. ` +
+    'Keep business names, addresses and phone numbers as they are.'
+  );
+}
+
+/** Date and time for the persona, written the way `locale` writes them. */
+export function formatDateTime(date: Date, locale: Locale) {
+  return new Intl.DateTimeFormat(locale, {dateStyle: 'full', timeStyle: 'short'}).format(date);
+}
+
+// Common words that tell Marathi from Hindi; both are written in Devanagari.
+const MARATHI_WORDS = new Set(['आहे', 'आहेत', 'नाही', 'मला', 'तुम्ही', 'काय', 'आणि', 'करा', 'मी', 'कुठे', 'पाहिजे']);
+const HINDI_WORDS = new Set(['है', 'हैं', 'नहीं', 'मुझे', 'आप', 'क्या', 'और', 'करें', 'मैं', 'कहाँ', 'चाहिए']);
+
+/**
+ * Best guess at the language of a transcript, from its script and, for
+ * Devanagari, a few telltale words. `undefined` if there's nothing to go on.
+ */
+export function detectLanguage(text: string): Locale | undefined {
+  const count = (re: RegExp) => text.match(re)?.length ?? 0;
+  const tamil = count(/[\u0B80-\u0BFF]/g);
+  const devanagari = count(/[\u0900-\u097F]/g);
+  const latin = count(/[A-Za-z]/g);
+  if (!tamil && !devanagari && !latin) return undefined;
+  if (tamil >= devanagari && tamil >= latin) return 'ta-IN';
+  if (latin >= devanagari) return 'en-IN';
+
+  const words = text.split(/[\s.,!?।]+/);
+  const marathi = words.filter((w) => MARATHI_WORDS.has(w)).length;
+  const hindi = words.filter((w) => HINDI_WORDS.has(w)).length;
+  // The letter ळ hardly occurs in Hindi.
+  return marathi > hindi || (marathi === hindi && text.includes('ळ')) ? 'mr-IN' : 'hi-IN';
+}
+
+/* ---------------------- UI strings ---------------------- */
+
+const en = {
+  connecting: 'Connecting...',
+  opened: 'Connected',
+  reconnecting: (attempt: number) => `Reconnecting (attempt ${attempt})...`,
+  closed: (reason: string) => `Closed: ${reason}`,
+  connectionFailed: (reason: string) => `Connection failed: ${reason}`,
+  requestingMic: 'Requesting microphone access...',
+  micGranted: 'Microphone access granted. Starting capture...',
+  error: (message: string) => `Error: ${message}`,
+  stopping: 'Stopping recording...',
+  stopped: 'Recording stopped. Click Start to begin again.',
+  sessionCleared: 'Session cleared.',
+  listening: 'Listening...',
+  holdToTalk: 'Hold Space or the talk button to speak',
+  sayWakePhrase: (phrase: string) => `Say "${phrase}"`,
+  recordWakePhraseFirst: 'Record the wake phrase in Settings first',
+  wakeSample: (phrase: string, i: number, n: number) => `Say "${phrase}" (${i} of ${n})`,
+  wakeSaved: 'Wake phrase saved.',
+  speakerError: (message: string) => `Could not use that speaker: ${message}`,
+  micError: (message: string) => `Could not use that microphone: ${message}`,
+  recordError: (message: string) => `Could not record: ${message}`,
+  settings: 'Settings',
+  reset: 'New conversation',
+  recordConversation: 'Record the conversation',
+  stopRecordingConversation: 'Stop recording the conversation',
+  start: 'Start talking',
+  listenForWakePhrase: (phrase: string) => `Listen for "${phrase}"`,
+  talk: 'Hold to talk (or hold Space)',
+  stop: 'Stop',
+  micOn: 'Microphone on',
+  controls: 'Conversation controls',
+  openAssistant: 'Talk to Helpyy',
+  closeAssistant: 'Close Helpyy',
+  bookingSent: (listing: string, reference: string) =>
+    `Your booking at ${listing} was sent. Reference ${reference}.`,
+  bookingFailed: (listing: string, reason: string) =>
+    `Your booking at ${listing} could not be made: ${reason}`,
+  conversation: 'Conversation',
+  you: 'You',
+  assistantLabel: 'Helpyy',
+  interrupted: 'interrupted',
+  transcriptEmpty: 'The conversation will appear here.',
+  typeMessage: 'Type a message',
+  notConnected: 'Not connected',
+  send: 'Send',
+  close: 'Close',
+  assistantProfile: 'Assistant profile',
+  model: 'Model',
+  voice: 'Voice',
+  language: 'Language',
+  replies: 'Replies',
+  replyModes: {both: 'Voice and text', audio: 'Voice only', text: 'Text only'},
+  profileDefault: (language?: string) =>
+    language ? `Profile default (${language})` : 'Profile default',
+  autoDetectLanguage: 'Switch to the language I speak',
+  showCaptions: "Show captions of the assistant's speech",
+  highContrast: 'High contrast',
+  microphone: 'Microphone',
+  inputModes: {
+    'hands-free': 'Hands-free',
+    'push-to-talk': 'Push to talk (hold Space)',
+    'wake-word': 'Wake phrase',
+  },
+  recordWakePhrase: 'Record the wake phrase',
+  recordWakePhraseAgain: 'Record the wake phrase again',
+  wakeSamples: (n: number) => `${n} samples, kept on this device`,
+  notRecordedYet: 'Not recorded yet',
+  talkingOver: 'When I talk over the assistant',
+  bargeInModes: {duck: 'Lower its voice', stop: 'Stop talking', off: 'Keep talking'},
+  vadThreshold: (db: number) => `Voice detection threshold (${db} dB)`,
+  gateSilence: "Only send audio while I'm speaking",
+  clientTurns: 'Detect my turns on this device',
+  microphoneDevice: 'Microphone device',
+  systemDefault: 'System default',
+  device: (n: number) => `Device ${n}`,
+  echoCancellation: 'Echo cancellation',
+  noiseSuppression: 'Noise suppression',
+  autoGainControl: 'Automatic gain',
+  inputGain: (gain: number) => `Microphone gain (${gain}×)`,
+  speaker: 'Speaker',
+  volume: (percent: number) => `Volume (${percent}%)`,
+  location: 'Location',
+  cityOrPincode: 'City or pincode',
+  set: 'Set',
+  useMyLocation: 'Use my location',
+  locationSources: {browser: 'detected', manual: 'entered', profile: 'profile default'},
+  locationUnknown: 'Location unknown',
+  showDiagnostics: 'Show diagnostics',
+  recordTitle: 'Record this conversation?',
+  recordConsent:
+    "Your microphone and the assistant's replies will be recorded along with the " +
+    'transcript, so the conversation can be reviewed for quality. Nothing leaves ' +
+    'this device unless you download and share it.',
+  cancel: 'Cancel',
+  agreeAndRecord: 'Agree and record',
+  recordingSaved: 'Recording saved',
+  recordingFiles: 'Download the audio and the transcript for review.',
+  transcriptFile: 'Transcript',
+  done: 'Done',
+  diagnostics: 'Diagnostics',
+  downloadLog: 'Download log',
+  downloadSessions: 'Download sessions',
+  connection: 'Connection',
+  session: 'Session',
+  duration: 'Duration',
+  connectTime: 'Connect time',
+  replyLatency: 'Reply latency',
+  medianP90: 'Recent median / p90',
+  underruns: 'Underruns',
+  interruptions: 'Interruptions',
+  lastError: 'Last error',
+  lastClose: 'Last close',
+  confirmBooking: 'Confirm your booking',
+  bookingConfirmed: 'Booking confirmed',
+  bookingSaved: 'Booking saved',
+  bookingWhen: (listing: string, date: string, time: string) => `${listing}, ${date} at ${time}.`,
+  reference: 'Reference',
+  bookingQueued: "It will be sent as soon as you are back online, and you'll get a reference then.",
+  name: 'Name',
+  phone: 'Phone',
+  date: 'Date',
+  time: 'Time',
+  chooseTime: 'Choose a time',
+  noFreeTimes: 'No free times',
+  notes: 'Notes',
+  booking: 'Booking…',
+  tryAgain: 'Try again',
+  book: 'Book',
+  enterName: 'Enter your name',
+  enterPhone: 'Enter a 10-digit phone number',
+  chooseDate: 'Choose a date',
+  datePassed: 'The date has passed',
+  slotTaken: 'That time is no longer free',
+};
+
+export type Messages = typeof en;
+
+const hi: Messages = {
+  connecting: 'कनेक्ट हो रहा है...',
+  opened: 'कनेक्ट हो गया',
+  reconnecting: (attempt) => `फिर से कनेक्ट हो रहा है (प्रयास ${attempt})...`,
+  closed: (reason) => `कनेक्शन बंद: ${reason}`,
+  connectionFailed: (reason) => `कनेक्शन विफल: ${reason}`,
+  requestingMic: 'माइक्रोफ़ोन की अनुमति मांगी जा रही है...',
+  micGranted: 'माइक्रोफ़ोन की अनुमति मिल गई। रिकॉर्डिंग शुरू हो रही है...',
+  error: (message) => `त्रुटि: ${message}`,
+  stopping: 'रिकॉर्डिंग रोकी जा रही है...',
+  stopped: 'रिकॉर्डिंग रुक गई। फिर से शुरू करने के लिए Start दबाएँ।',
+  sessionCleared: 'बातचीत साफ़ कर दी गई।',
+  listening: 'सुना जा रहा है...',
+  holdToTalk: 'बोलने के लिए Space या बोलें बटन दबाकर रखें',
+  sayWakePhrase: (phrase) => `"${phrase}" कहें`,
+  recordWakePhraseFirst: 'पहले सेटिंग्स में वेक फ़्रेज़ रिकॉर्ड करें',
+  wakeSample: (phrase, i, n) => `"${phrase}" कहें (${n} में से ${i})`,
+  wakeSaved: 'वेक फ़्रेज़ सेव हो गया।',
+  speakerError: (message) => `यह स्पीकर इस्तेमाल नहीं हो सका: ${message}`,
+  micError: (message) => `यह माइक्रोफ़ोन इस्तेमाल नहीं हो सका: ${message}`,
+  recordError: (message) => `रिकॉर्ड नहीं हो सका: ${message}`,
+  settings: 'सेटिंग्स',
+  reset: 'नई बातचीत',
+  recordConversation: 'बातचीत रिकॉर्ड करें',
+  stopRecordingConversation: 'बातचीत की रिकॉर्डिंग रोकें',
+  start: 'बोलना शुरू करें',
+  listenForWakePhrase: (phrase) => `"${phrase}" के लिए सुनें`,
+  talk: 'बोलने के लिए दबाकर रखें (या Space)',
+  stop: 'रोकें',
+  micOn: 'माइक्रोफ़ोन चालू है',
+  controls: 'बातचीत के कंट्रोल',
+  openAssistant: 'Helpyy से बात करें',
+  closeAssistant: 'Helpyy बंद करें',
+  bookingSent: (listing, reference) =>
+    `${listing} में आपकी बुकिंग भेज दी गई। संदर्भ ${reference}.`,
+  bookingFailed: (listing, reason) => `${listing} में आपकी बुकिंग नहीं हो सकी: ${reason}`,
+  conversation: 'बातचीत',
+  you: 'आप',
+  assistantLabel: 'Helpyy',
+  interrupted: 'बीच में रोका गया',
+  transcriptEmpty: 'बातचीत यहाँ दिखेगी।',
+  typeMessage: 'संदेश लिखें',
+  notConnected: 'कनेक्ट नहीं है',
+  send: 'भेजें',
+  close: 'बंद करें',
+  assistantProfile: 'असिस्टेंट प्रोफ़ाइल',
+  model: 'मॉडल',
+  voice: 'आवाज़',
+  language: 'भाषा',
+  replies: 'जवाब',
+  replyModes: {both: 'आवाज़ और टेक्स्ट', audio: 'सिर्फ़ आवाज़', text: 'सिर्फ़ टेक्स्ट'},
+  profileDefault: (language) =>
+    language ? `प्रोफ़ाइल की भाषा (${language})` : 'प्रोफ़ाइल की भाषा',
+  autoDetectLanguage: 'मैं जो भाषा बोलूँ, उसी में बदलें',
+  showCaptions: 'असिस्टेंट की बातों के कैप्शन दिखाएँ',
+  highContrast: 'हाई कंट्रास्ट',
+  microphone: 'माइक्रोफ़ोन',
+  inputModes: {
+    'hands-free': 'हैंड्स-फ़्री',
+    'push-to-talk': 'दबाकर बोलें (Space दबाकर रखें)',
+    'wake-word': 'वेक फ़्रेज़',
+  },
+  recordWakePhrase: 'वेक फ़्रेज़ रिकॉर्ड करें',
+  recordWakePhraseAgain: 'वेक फ़्रेज़ फिर से रिकॉर्ड करें',
+  wakeSamples: (n) => `${n} नमूने, इसी डिवाइस पर रखे गए`,
+  notRecordedYet: 'अभी रिकॉर्ड नहीं हुआ',
+  talkingOver: 'जब मैं असिस्टेंट के बीच में बोलूँ',
+  bargeInModes: {duck: 'आवाज़ धीमी करे', stop: 'बोलना बंद करे', off: 'बोलता रहे'},
+  vadThreshold: (db) => `आवाज़ पहचानने की सीमा (${db} dB)`,
+  gateSilence: 'सिर्फ़ तभी ऑडियो भेजें जब मैं बोल रहा हूँ',
+  clientTurns: 'मेरी बारी इसी डिवाइस पर पहचानें',
+  microphoneDevice: 'माइक्रोफ़ोन डिवाइस',
+  systemDefault: 'सिस्टम डिफ़ॉल्ट',
+  device: (n) => `डिवाइस ${n}`,
+  echoCancellation: 'गूँज हटाना',
+  noiseSuppression: 'शोर कम करना',
+  autoGainControl: 'अपने-आप गेन',
+  inputGain: (gain) => `माइक्रोफ़ोन गेन (${gain}×)`,
+  speaker: 'स्पीकर',
+  volume: (percent) => `आवाज़ (${percent}%)`,
+  location: 'स्थान',
+  cityOrPincode: 'शहर या पिनकोड',
+  set: 'सेट करें',
+  useMyLocation: 'मेरा स्थान इस्तेमाल करें',
+  locationSources: {browser: 'पता लगाया गया', manual: 'आपने लिखा', profile: 'प्रोफ़ाइल से'},
+  locationUnknown: 'स्थान पता नहीं',
+  showDiagnostics: 'डायग्नॉस्टिक्स दिखाएँ',
+  recordTitle: 'यह बातचीत रिकॉर्ड करें?',
+  recordConsent:
+    'आपका माइक्रोफ़ोन और असिस्टेंट के जवाब ट्रांसक्रिप्ट के साथ रिकॉर्ड होंगे, ताकि ' +
+    'गुणवत्ता के लिए बातचीत की समीक्षा हो सके। जब तक आप इसे डाउनलोड करके साझा न करें, ' +
+    'कुछ भी इस डिवाइस से बाहर नहीं जाता।',
+  cancel: 'रद्द करें',
+  agreeAndRecord: 'सहमत हूँ, रिकॉर्ड करें',
+  recordingSaved: 'रिकॉर्डिंग सेव हो गई',
+  recordingFiles: 'समीक्षा के लिए ऑडियो और ट्रांसक्रिप्ट डाउनलोड करें।',
+  transcriptFile: 'ट्रांसक्रिप्ट',
+  done: 'हो गया',
+  diagnostics: 'डायग्नॉस्टिक्स',
+  downloadLog: 'लॉग डाउनलोड करें',
+  downloadSessions: 'सेशन डाउनलोड करें',
+  connection: 'कनेक्शन',
+  session: 'सेशन',
+  duration: 'अवधि',
+  connectTime: 'कनेक्ट होने का समय',
+  replyLatency: 'जवाब में देरी',
+  medianP90: 'हाल की माध्यिका / p90',
+  underruns: 'ऑडियो रुकावटें',
+  interruptions: 'बीच में रोकना',
+  lastError: 'पिछली त्रुटि',
+  lastClose: 'पिछली बार बंद होना',
+  confirmBooking: 'अपनी बुकिंग की पुष्टि करें',
+  bookingConfirmed: 'बुकिंग पक्की हो गई',
+  bookingSaved: 'बुकिंग सेव हो गई',
+  bookingWhen: (listing, date, time) => `${listing}, ${date} को ${time} बजे।`,
+  reference: 'रेफ़रेंस',
+  bookingQueued: 'ऑनलाइन होते ही यह भेज दी जाएगी, और तब आपको रेफ़रेंस मिलेगा।',
+  name: 'नाम',
+  phone: 'फ़ोन',
+  date: 'तारीख़',
+  time: 'समय',
+  chooseTime: 'समय चुनें',
+  noFreeTimes: 'कोई समय खाली नहीं',
+  notes: 'टिप्पणी',
+  booking: 'बुक हो रहा है…',
+  tryAgain: 'फिर कोशिश करें',
+  book: 'बुक करें',
+  enterName: 'अपना नाम लिखें',
+  enterPhone: '10 अंकों का फ़ोन नंबर लिखें',
+  chooseDate: 'तारीख़ चुनें',
+  datePassed: 'यह तारीख़ बीत चुकी है',
+  slotTaken: 'वह समय अब खाली नहीं है',
+};
+
+const mr: Messages = {
+  connecting: 'कनेक्ट होत आहे...',
+  opened: 'कनेक्ट झाले',
+  reconnecting: (attempt) => `पुन्हा कनेक्ट होत आहे (प्रयत्न ${attempt})...`,
+  closed: (reason) => `कनेक्शन बंद: ${reason}`,
+  connectionFailed: (reason) => `कनेक्शन अयशस्वी: ${reason}`,
+  requestingMic: 'मायक्रोफोनची परवानगी मागत आहे...',
+  micGranted: 'मायक्रोफोनची परवानगी मिळाली. रेकॉर्डिंग सुरू होत आहे...',
+  error: (message) => `त्रुटी: ${message}`,
+  stopping: 'रेकॉर्डिंग थांबवत आहे...',
+  stopped: 'रेकॉर्डिंग थांबले. पुन्हा सुरू करण्यासाठी Start दाबा.',
+  sessionCleared: 'संभाषण साफ केले.',
+  listening: 'ऐकत आहे...',
+  holdToTalk: 'बोलण्यासाठी Space किंवा बोला बटण दाबून ठेवा',
+  sayWakePhrase: (phrase) => `"${phrase}" म्हणा`,
+  recordWakePhraseFirst: 'आधी सेटिंग्जमध्ये वेक फ्रेज रेकॉर्ड करा',
+  wakeSample: (phrase, i, n) => `"${phrase}" म्हणा (${n} पैकी ${i})`,
+  wakeSaved: 'वेक फ्रेज जतन केला.',
+  speakerError: (message) => `हा स्पीकर वापरता आला नाही: ${message}`,
+  micError: (message) => `हा मायक्रोफोन वापरता आला नाही: ${message}`,
+  recordError: (message) => `रेकॉर्ड करता आले नाही: ${message}`,
+  settings: 'सेटिंग्ज',
+  reset: 'नवीन संभाषण',
+  recordConversation: 'संभाषण रेकॉर्ड करा',
+  stopRecordingConversation: 'संभाषणाचे रेकॉर्डिंग थांबवा',
+  start: 'बोलायला सुरुवात करा',
+  listenForWakePhrase: (phrase) => `"${phrase}" साठी ऐका`,
+  talk: 'बोलण्यासाठी दाबून ठेवा (किंवा Space)',
+  stop: 'थांबवा',
+  micOn: 'मायक्रोफोन चालू आहे',
+  controls: 'संभाषणाची नियंत्रणे',
+  openAssistant: 'Helpyy शी बोला',
+  closeAssistant: 'Helpyy बंद करा',
+  bookingSent: (listing, reference) =>
+    `${listing} येथील तुमचे बुकिंग पाठवले गेले. संदर्भ ${reference}.`,
+  bookingFailed: (listing, reason) => `${listing} येथील तुमचे बुकिंग होऊ शकले नाही: ${reason}`,
+  conversation: 'संभाषण',
+  you: 'तुम्ही',
+  assistantLabel: 'Helpyy',
+  interrupted: 'मध्येच थांबवले',
+  transcriptEmpty: 'संभाषण येथे दिसेल.',
+  typeMessage: 'संदेश लिहा',
+  notConnected: 'कनेक्ट नाही',
+  send: 'पाठवा',
+  close: 'बंद करा',
+  assistantProfile: 'असिस्टंट प्रोफाइल',
+  model: 'मॉडेल',
+  voice: 'आवाज',
+  language: 'भाषा',
+  replies: 'उत्तरे',
+  replyModes: {both: 'आवाज आणि मजकूर', audio: 'फक्त आवाज', text: 'फक्त मजकूर'},
+  profileDefault: (language) =>
+    language ? `प्रोफाइलची भाषा (${language})` : 'प्रोफाइलची भाषा',
+  autoDetectLanguage: 'मी बोलतो त्या भाषेत बदला',
+  showCaptions: 'असिस्टंटच्या बोलण्याचे कॅप्शन दाखवा',
+  highContrast: 'हाय कॉन्ट्रास्ट',
+  microphone: 'मायक्रोफोन',
+  inputModes: {
+    'hands-free': 'हँड्स-फ्री',
+    'push-to-talk': 'दाबून बोला (Space दाबून ठेवा)',
+    'wake-word': 'वेक फ्रेज',
+  },
+  recordWakePhrase: 'वेक फ्रेज रेकॉर्ड करा',
+  recordWakePhraseAgain: 'वेक फ्रेज पुन्हा रेकॉर्ड करा',
+  wakeSamples: (n) => `${n} नमुने, याच डिव्हाइसवर ठेवले`,
+  notRecordedYet: 'अजून रेकॉर्ड केलेले नाही',
+  talkingOver: 'मी असिस्टंटच्या मध्ये बोललो तर',
+  bargeInModes: {duck: 'आवाज कमी करा', stop: 'बोलणे थांबवा', off: 'बोलत राहा'},
+  vadThreshold: (db) => `आवाज ओळखण्याची मर्यादा (${db} dB)`,
+  gateSilence: 'मी बोलत असतानाच ऑडिओ पाठवा',
+  clientTurns: 'माझी पाळी याच डिव्हाइसवर ओळखा',
+  microphoneDevice: 'मायक्रोफोन डिव्हाइस',
+  systemDefault: 'सिस्टम डीफॉल्ट',
+  device: (n) => `डिव्हाइस ${n}`,
+  echoCancellation: 'प्रतिध्वनी काढणे',
+  noiseSuppression: 'आवाज-गोंगाट कमी करणे',
+  autoGainControl: 'आपोआप गेन',
+  inputGain: (gain) => `मायक्रोफोन गेन (${gain}×)`,
+  speaker: 'स्पीकर',
+  volume: (percent) => `आवाज (${percent}%)`,
+  location: 'ठिकाण',
+  cityOrPincode: 'शहर किंवा पिनकोड',
+  set: 'सेट करा',
+  useMyLocation: 'माझे ठिकाण वापरा',
+  locationSources: {browser: 'शोधलेले', manual: 'तुम्ही लिहिलेले', profile: 'प्रोफाइलमधून'},
+  locationUnknown: 'ठिकाण माहीत नाही',
+  showDiagnostics: 'डायग्नॉस्टिक्स दाखवा',
+  recordTitle: 'हे संभाषण रेकॉर्ड करायचे?',
+  recordConsent:
+    'तुमचा मायक्रोफोन आणि असिस्टंटची उत्तरे ट्रान्सक्रिप्टसह रेकॉर्ड केली जातील, ' +
+    'जेणेकरून गुणवत्तेसाठी संभाषणाचा आढावा घेता येईल. तुम्ही डाउनलोड करून शेअर ' +
+    'केल्याशिवाय काहीही या डिव्हाइसबाहेर जात नाही.',
+  cancel: 'रद्द करा',
+  agreeAndRecord: 'मान्य, रेकॉर्ड करा',
+  recordingSaved: 'रेकॉर्डिंग जतन झाले',
+  recordingFiles: 'आढाव्यासाठी ऑडिओ आणि ट्रान्सक्रिप्ट डाउनलोड करा.',
+  transcriptFile: 'ट्रान्सक्रिप्ट',
+  done: 'झाले',
+  diagnostics: 'डायग्नॉस्टिक्स',
+  downloadLog: 'लॉग डाउनलोड करा',
+  downloadSessions: 'सेशन डाउनलोड करा',
+  connection: 'कनेक्शन',
+  session: 'सेशन',
+  duration: 'कालावधी',
+  connectTime: 'कनेक्ट होण्याचा वेळ',
+  replyLatency: 'उत्तराला लागलेला वेळ',
+  medianP90: 'अलीकडील मध्यक / p90',
+  underruns: 'ऑडिओ खंड',
+  interruptions: 'मध्येच थांबवणे',
+  lastError: 'शेवटची त्रुटी',
+  lastClose: 'शेवटचे बंद होणे',
+  confirmBooking: 'तुमच्या बुकिंगची खात्री करा',
+  bookingConfirmed: 'बुकिंग निश्चित झाले',
+  bookingSaved: 'बुकिंग जतन झाले',
+  bookingWhen: (listing, date, time) => `${listing}, ${date} रोजी ${time} वाजता.`,
+  reference: 'संदर्भ',
+  bookingQueued: 'तुम्ही पुन्हा ऑनलाइन येताच हे पाठवले जाईल, आणि तेव्हा तुम्हाला संदर्भ मिळेल.',
+  name: 'नाव',
+  phone: 'फोन',
+  date: 'तारीख',
+  time: 'वेळ',
+  chooseTime: 'वेळ निवडा',
+  noFreeTimes: 'एकही वेळ रिकामी नाही',
+  notes: 'टीप',
+  booking: 'बुकिंग होत आहे…',
+  tryAgain: 'पुन्हा प्रयत्न करा',
+  book: 'बुक करा',
+  enterName: 'तुमचे नाव लिहा',
+  enterPhone: '10 अंकी फोन नंबर लिहा',
+  chooseDate: 'तारीख निवडा',
+  datePassed: 'ही तारीख उलटून गेली आहे',
+  slotTaken: 'ती वेळ आता रिकामी नाही',
+};
+
+const ta: Messages = {
+  connecting: 'இணைக்கப்படுகிறது...',
+  opened: 'இணைக்கப்பட்டது',
+  reconnecting: (attempt) => `மீண்டும் இணைக்கப்படுகிறது (முயற்சி ${attempt})...`,
+  closed: (reason) => `இணைப்பு மூடப்பட்டது: ${reason}`,
+  connectionFailed: (reason) => `இணைப்பு தோல்வியடைந்தது: ${reason}`,
+  requestingMic: 'மைக்ரோஃபோன் அனுமதி கோரப்படுகிறது...',
+  micGranted: 'மைக்ரோஃபோன் அனுமதி கிடைத்தது. பதிவு தொடங்குகிறது...',
+  error: (message) => `பிழை: ${message}`,
+  stopping: 'பதிவு நிறுத்தப்படுகிறது...',
+  stopped: 'பதிவு நிறுத்தப்பட்டது. மீண்டும் தொடங்க Start அழுத்தவும்.',
+  sessionCleared: 'உரையாடல் அழிக்கப்பட்டது.',
+  listening: 'கேட்கிறது...',
+  holdToTalk: 'பேச Space அல்லது பேசு பொத்தானை அழுத்திப் பிடிக்கவும்',
+  sayWakePhrase: (phrase) => `"${phrase}" என்று சொல்லுங்கள்`,
+  recordWakePhraseFirst: 'முதலில் அமைப்புகளில் எழுப்பும் சொற்றொடரைப் பதிவு செய்யுங்கள்',
+  wakeSample: (phrase, i, n) => `"${phrase}" என்று சொல்லுங்கள் (${n}-இல் ${i})`,
+  wakeSaved: 'எழுப்பும் சொற்றொடர் சேமிக்கப்பட்டது.',
+  speakerError: (message) => `இந்த ஸ்பீக்கரைப் பயன்படுத்த முடியவில்லை: ${message}`,
+  micError: (message) => `இந்த மைக்ரோஃபோனைப் பயன்படுத்த முடியவில்லை: ${message}`,
+  recordError: (message) => `பதிவு செய்ய முடியவில்லை: ${message}`,
+  settings: 'அமைப்புகள்',
+  reset: 'புதிய உரையாடல்',
+  recordConversation: 'உரையாடலைப் பதிவு செய்',
+  stopRecordingConversation: 'உரையாடல் பதிவை நிறுத்து',
+  start: 'பேசத் தொடங்கு',
+  listenForWakePhrase: (phrase) => `"${phrase}" க்காகக் கேள்`,
+  talk: 'பேச அழுத்திப் பிடி (அல்லது Space)',
+  stop: 'நிறுத்து',
+  micOn: 'மைக்ரோஃபோன் இயக்கத்தில் உள்ளது',
+  controls: 'உரையாடல் கட்டுப்பாடுகள்',
+  openAssistant: 'Helpyy உடன் பேசுங்கள்',
+  closeAssistant: 'Helpyy ஐ மூடு',
+  bookingSent: (listing, reference) =>
+    `${listing} இல் உங்கள் முன்பதிவு அனுப்பப்பட்டது. குறிப்பு எண் ${reference}.`,
+  bookingFailed: (listing, reason) =>
+    `${listing} இல் உங்கள் முன்பதிவைச் செய்ய முடியவில்லை: ${reason}`,
+  conversation: 'உரையாடல்',
+  you: 'நீங்கள்',
+  assistantLabel: 'Helpyy',
+  interrupted: 'இடைமறிக்கப்பட்டது',
+  transcriptEmpty: 'உரையாடல் இங்கே தோன்றும்.',
+  typeMessage: 'செய்தியைத் தட்டச்சு செய்யுங்கள்',
+  notConnected: 'இணைக்கப்படவில்லை',
+  send: 'அனுப்பு',
+  close: 'மூடு',
+  assistantProfile: 'உதவியாளர் சுயவிவரம்',
+  model: 'மாடல்',
+  voice: 'குரல்',
+  language: 'மொழி',
+  replies: 'பதில்கள்',
+  replyModes: {both: 'குரலும் உரையும்', audio: 'குரல் மட்டும்', text: 'உரை மட்டும்'},
+  profileDefault: (language) =>
+    language ? `சுயவிவர இயல்பு (${language})` : 'சுயவிவர இயல்பு',
+  autoDetectLanguage: 'நான் பேசும் மொழிக்கு மாறு',
+  showCaptions: 'உதவியாளரின் பேச்சுக்கு தலைப்புகளைக் காட்டு',
+  highContrast: 'உயர் மாறுபாடு',
+  microphone: 'மைக்ரோஃபோன்',
+  inputModes: {
+    'hands-free': 'கைகள் இல்லாமல்',
+    'push-to-talk': 'அழுத்திப் பேசு (Space ஐப் பிடி)',
+    'wake-word': 'எழுப்பும் சொற்றொடர்',
+  },
+  recordWakePhrase: 'எழுப்பும் சொற்றொடரைப் பதிவு செய்',
+  recordWakePhraseAgain: 'எழுப்பும் சொற்றொடரை மீண்டும் பதிவு செய்',
+  wakeSamples: (n) => `${n} மாதிரிகள், இந்தச் சாதனத்தில் வைக்கப்பட்டுள்ளன`,
+  notRecordedYet: 'இன்னும் பதிவு செய்யப்படவில்லை',
+  talkingOver: 'உதவியாளர் பேசும்போது நான் பேசினால்',
+  bargeInModes: {duck: 'குரலைக் குறை', stop: 'பேசுவதை நிறுத்து', off: 'தொடர்ந்து பேசு'},
+  vadThreshold: (db) => `குரல் கண்டறிதல் வரம்பு (${db} dB)`,
+  gateSilence: 'நான் பேசும்போது மட்டும் ஒலியை அனுப்பு',
+  clientTurns: 'என் முறையை இந்தச் சாதனத்திலேயே கண்டறி',
+  microphoneDevice: 'மைக்ரோஃபோன் சாதனம்',
+  systemDefault: 'கணினி இயல்பு',
+  device: (n) => `சாதனம் ${n}`,
+  echoCancellation: 'எதிரொலி நீக்கம்',
+  noiseSuppression: 'இரைச்சல் குறைப்பு',
+  autoGainControl: 'தானியங்கி கெயின்',
+  inputGain: (gain) => `மைக்ரோஃபோன் கெயின் (${gain}×)`,
+  speaker: 'ஸ்பீக்கர்',
+  volume: (percent) => `ஒலியளவு (${percent}%)`,
+  location: 'இருப்பிடம்',
+  cityOrPincode: 'நகரம் அல்லது பின்கோடு',
+  set: 'அமை',
+  useMyLocation: 'என் இருப்பிடத்தைப் பயன்படுத்து',
+  locationSources: {browser: 'கண்டறியப்பட்டது', manual: 'நீங்கள் உள்ளிட்டது', profile: 'சுயவிவரத்திலிருந்து'},
+  locationUnknown: 'இருப்பிடம் தெரியவில்லை',
+  showDiagnostics: 'கண்டறிதல் தகவலைக் காட்டு',
+  recordTitle: 'இந்த உரையாடலைப் பதிவு செய்யவா?',
+  recordConsent:
+    'தரத்துக்காக உரையாடலை மதிப்பாய்வு செய்ய, உங்கள் மைக்ரோஃபோனும் உதவியாளரின் ' +
+    'பதில்களும் எழுத்துப்படியுடன் பதிவு செய்யப்படும். நீங்கள் பதிவிறக்கிப் பகிராதவரை ' +
+    'எதுவும் இந்தச் சாதனத்தை விட்டு வெளியேறாது.',
+  cancel: 'ரத்து செய்',
+  agreeAndRecord: 'ஒப்புக்கொண்டு பதிவு செய்',
+  recordingSaved: 'பதிவு சேமிக்கப்பட்டது',
+  recordingFiles: 'மதிப்பாய்வுக்கு ஒலியையும் எழுத்துப்படியையும் பதிவிறக்குங்கள்.',
+  transcriptFile: 'எழுத்துப்படி',
+  done: 'முடிந்தது',
+  diagnostics: 'கண்டறிதல் தகவல்',
+  downloadLog: 'பதிவேட்டைப் பதிவிறக்கு',
+  downloadSessions: 'அமர்வுகளைப் பதிவிறக்கு',
+  connection: 'இணைப்பு',
+  session: 'அமர்வு',
+  duration: 'நேரம்',
+  connectTime: 'இணைப்பு நேரம்',
+  replyLatency: 'பதில் தாமதம்',
+  medianP90: 'சமீபத்திய இடைநிலை / p90',
+  underruns: 'ஒலி இடைவெளிகள்',
+  interruptions: 'இடைமறிப்புகள்',
+  lastError: 'கடைசிப் பிழை',
+  lastClose: 'கடைசி மூடல்',
+  confirmBooking: 'உங்கள் முன்பதிவை உறுதிசெய்யுங்கள்',
+  bookingConfirmed: 'முன்பதிவு உறுதியானது',
+  bookingSaved: 'முன்பதிவு சேமிக்கப்பட்டது',
+  bookingWhen: (listing, date, time) => `${listing}, ${date} அன்று ${time} மணிக்கு.`,
+  reference: 'குறிப்பு எண்',
+  bookingQueued: 'நீங்கள் மீண்டும் இணையத்துக்கு வந்ததும் இது அனுப்பப்படும், அப்போது குறிப்பு எண் கிடைக்கும்.',
+  name: 'பெயர்',
+  phone: 'தொலைபேசி',
+  date: 'தேதி',
+  time: 'நேரம்',
+  chooseTime: 'நேரத்தைத் தேர்ந்தெடுங்கள்',
+  noFreeTimes: 'காலியான நேரம் இல்லை',
+  notes: 'குறிப்புகள்',
+  booking: 'முன்பதிவு செய்கிறது…',
+  tryAgain: 'மீண்டும் முயலுங்கள்',
+  book: 'முன்பதிவு செய்',
+  enterName: 'உங்கள் பெயரை உள்ளிடுங்கள்',
+  enterPhone: '10 இலக்க தொலைபேசி எண்ணை உள்ளிடுங்கள்',
+  chooseDate: 'தேதியைத் தேர்ந்தெடுங்கள்',
+  datePassed: 'அந்தத் தேதி கடந்துவிட்டது',
+  slotTaken: 'அந்த நேரம் இப்போது காலியாக இல்லை',
+};
+
+const MESSAGES: Record<Locale, Messages> = {'en-IN': en, 'hi-IN': hi, 'mr-IN': mr, 'ta-IN': ta};
+
+export function messages(locale: Locale): Messages {
+  return MESSAGES[locale] ?? en;
+}
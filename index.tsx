@@ -4,49 +4,438 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { GoogleGenAI, LiveServerMessage, Modality, Session } from '@google/genai';
+import {
+  LiveConnectConfig,
+  LiveServerMessage,
+  LiveServerToolCall,
+  Modality,
+} from '@google/genai';
 import { LitElement, css, html } from 'lit';
-import { customElement, state, query } from 'lit/decorators.js';
-import { createBlob, decode, decodeAudioData } from './utils';
+import { customElement, property, state, query } from 'lit/decorators.js';
+import { createBlob } from './utils';
+import { ReplyPlayer } from './playback';
+import { createDirectoryProvider } from './directory';
+import {
+  registerAvatarTools,
+  registerBookingTools,
+  registerDirectoryTools,
+  ToolRegistry,
+} from './tools';
+import {
+  Booking,
+  BookingDetails,
+  BookingError,
+  BookingRejectedDetail,
+  BookingResult,
+  BookingSentDetail,
+  QueuedBookingBackend,
+  createBookingBackend,
+  newBookingId,
+} from './booking';
 import './av';
+import './transcript-panel';
+import './settings-panel';
+import './recording-panel';
+import './diagnostics-panel';
+import './booking-card';
+import { RecordingFile } from './recording-panel';
+import { BookingCardStatus } from './booking-card';
+import {
+  ConversationRecorder,
+  Recording,
+  recordingToWav,
+  recordingTranscript,
+} from './recorder';
+import { AudioCapture } from './capture';
+import { Conversation, Turn } from './conversation';
+import {
+  ConnectionState,
+  ConnectionStateDetail,
+  LiveConnection,
+} from './connection';
+import { LiveTransport, proxySocketUrl, WebSocketTransport } from './transport';
+import {
+  DEMO_SCRIPT,
+  MockTransport,
+  RecordingTransport,
+} from './mock-transport';
+import {
+  AssistantProfile,
+  listProfiles,
+  loadProfile,
+  profileNameFor,
+  ProfileSummary,
+  renderPersona,
+} from './profile';
+import {
+  BrowserLocationProvider,
+  CachedLocationProvider,
+  FallbackLocationProvider,
+  ManualLocationProvider,
+  NominatimGeocoder,
+  ResolvedLocation,
+  StaticLocationProvider,
+} from './location';
+import {
+  BargeIn,
+  loadSettings,
+  saveSettings,
+  UserSettings,
+} from './settings';
+import { SilenceGate, VoiceActivityDetector } from './vad';
+import {
+  detectLanguage,
+  formatDateTime,
+  isLocale,
+  LANGUAGES,
+  languageInstruction,
+  Locale,
+  messages,
+} from './i18n';
+import {
+  AudioDevices,
+  canChooseOutput,
+  micConstraints,
+  setOutputDevice,
+} from './devices';
+import {
+  loadWakeTemplates,
+  saveWakeTemplates,
+  WAKE_PHRASE,
+  WakeWordSpotter,
+} from './wakeword';
+import {
+  createMetricsReporter,
+  IndexedDbReporter,
+  MetricsSnapshot,
+  SessionMetrics,
+} from './metrics';
 import { GdmLiveAudioAvatar } from './av'; // Import the avatar component type
 
+const MANUAL_LOCATION_KEY = 'helpyy.manualLocation';
+/** Assistant volume while the user talks over it with `bargeIn: 'duck'`. */
+const DUCK_GAIN = 0.2;
+/** Samples of the wake phrase to record. */
+const WAKE_SAMPLES = 3;
+/** Back to waiting for the wake phrase after this long without speech. */
+const WAKE_TIMEOUT_MS = 10000;
+/** Roughly two lines of captions; older words scroll off. */
+const CAPTION_CHARS = 140;
+/** Captions stay up this long after the assistant stops. */
+const CAPTION_HOLD_MS = 4000;
+
+/** Save `data` as a JSON file named `prefix` plus the time. */
+function downloadJson(prefix: string, data: unknown) {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }),
+  );
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${prefix}-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** How the widget sits on the page. */
+export type WidgetPosition = 'fullscreen' | 'inline' | 'bubble';
+export type WidgetTheme = 'dark' | 'light';
+
+/** Scene colour behind the avatar in each theme. */
+const THEME_BACKGROUND: Record<WidgetTheme, string> = {
+  dark: '#151515',
+  light: '#eef0f3',
+};
+
+/**
+ * The Helpyy assistant. Embed it with the widget bundle (`widget.ts`) and
+ * drive it with `start()`, `stop()`, `reset()` and `sendText()`.
+ *
+ * Events fire on the element itself and don't bubble, so `error` can't
+ * reach the page's own `window` error handlers.
+ *
+ * @fires session-open - `{profile, resumed}` when a session is ready.
+ * @fires transcript - `{turn}` whenever the latest turn's text changes.
+ * @fires turn-complete - `{turn}` when the assistant finishes replying;
+ *   `turn` is its transcribed reply, if any.
+ * @fires tool-call - `{name, args, response}` after a tool has run.
+ * @fires booking - `{booking, reference, queued}` when the user has
+ *   confirmed a booking, e.g. to record the lead on the partner's side.
+ *   A `queued` booking has no `reference` until `booking-sent`.
+ * @fires booking-sent - `{booking, reference}` when a queued booking has
+ *   been sent.
+ * @fires booking-failed - `{booking, error}` when the booking service
+ *   turns down a queued booking; it stays on the device.
+ * @fires error - `{message}` when something goes wrong.
+ */
 @customElement('gdm-live-audio')
 export class GdmLiveAudio extends LitElement {
+  /** Base for `base-url`; the widget bundle sets it to where it is served from. */
+  static defaultBaseUrl = '';
+
   @state() isRecording = false;
   @state() status = '';
   @state() error = '';
+  @state() turns: readonly Turn[] = [];
+  @state() connectionState: ConnectionState = 'idle';
+  @state() assistantProfile?: AssistantProfile;
+  @state() profiles: ProfileSummary[] = [];
+  @state() showSettings = false;
+  @state() settings: UserSettings = loadSettings();
+  @state() isRecordingConversation = false;
+  @state() showRecordingPanel = false;
+  @state() recordingFiles: RecordingFile[] = [];
+  /** Push-to-talk: the talk button or Space is held. */
+  @state() talking = false;
+  /** Wake-word mode: the phrase was heard and the mic is streaming. */
+  @state() awake = false;
+  @state() enrollingWakeWord = false;
+  /**
+   * The assistant's latest words, for the captions. Those are hidden from
+   * screen readers, which get the words from the transcript's log instead.
+   */
+  @state() caption = '';
+  @state() metricsSnapshot?: MetricsSnapshot;
+  /** A booking the assistant drafted, while its card is up. */
+  @state() booking?: Booking;
+  @state() bookingSlots: string[] = [];
+  @state() bookingStatus: BookingCardStatus = 'review';
+  @state() bookingError = '';
+  @state() bookingResult?: BookingResult;
+
+  /** Name of the assistant profile to load; `?profile=` overrides it. */
+  @property() profile?: string;
+
+  /** GLB model to show instead of the profile's avatar. */
+  @property({ attribute: 'avatar' }) avatarSrc?: string;
+
+  @property({ reflect: true }) theme: WidgetTheme = 'dark';
+
+  /**
+   * `fullscreen` covers the viewport, `inline` fills the box the page gives
+   * the element, and `bubble` floats a button that opens the assistant.
+   */
+  @property({ reflect: true }) position: WidgetPosition = 'fullscreen';
+
+  /** Whether the `bubble` is open. */
+  @property({ type: Boolean, reflect: true }) open = false;
+
+  /**
+   * Where profiles, the default avatar and the live proxy are, ending in
+   * `/`. Defaults to `GdmLiveAudio.defaultBaseUrl`, else this page's origin.
+   */
+  @property({ attribute: 'base-url' }) baseUrl = '';
+
+  /** Where Live sessions go; set before the element connects to override. */
+  @property({ attribute: false }) transport?: LiveTransport;
 
   @query('gdm-live-audio-avatar') private avatar!: GdmLiveAudioAvatar; // Reference to the avatar component
 
-  private client: GoogleGenAI;
-  private session: Session;
-  private inputAudioContext = new (window.AudioContext ||
-    window.webkitAudioContext)({ sampleRate: 16000 });
-  private outputAudioContext = new (window.AudioContext ||
-    window.webkitAudioContext)({ sampleRate: 24000 });
-  @state() inputNode = this.inputAudioContext.createGain();
-  @state() outputNode = this.outputAudioContext.createGain();
-  private nextStartTime = 0;
+  private connection: LiveConnection;
+  // Set by `?record`; see `defaultTransport`.
+  private sessionRecorder?: RecordingTransport;
+  // The audio graph is built each time the element connects and closed
+  // when it is removed; see `createAudio`.
+  private inputAudioContext: AudioContext;
+  private outputAudioContext: AudioContext;
+  @state() inputNode: GainNode;
+  @state() outputNode: GainNode;
+  private player: ReplyPlayer;
   private mediaStream: MediaStream;
-  private sourceNode: AudioBufferSourceNode;
-  private scriptProcessorNode: ScriptProcessorNode;
-  private sources = new Set<AudioBufferSourceNode>();
+  private sourceNode: MediaStreamAudioSourceNode;
+  private capture: AudioCapture;
+  /** Client-side voice activity detection on the mic; see `UserSettings`. */
+  readonly vad = new VoiceActivityDetector({
+    thresholdDb: this.settings.vadThresholdDb,
+  });
+  private silenceGate = new SilenceGate();
+  // Push-to-talk turn in progress; it is closed when the key is let go.
+  private talkTurnOpen = false;
+  private wakeWord = new WakeWordSpotter(loadWakeTemplates());
+  private lastActivity = 0;
+  private devices = new AudioDevices();
+  // Devices in use; they differ from the settings while a chosen one is unplugged.
+  private activeInputId = '';
+  private activeOutputId = '';
+  // Auto-detection looks at the first thing the user says in each session.
+  private languageChecked = false;
+  // What auto-detection heard; it wins over `language` until the user picks
+  // another one, and is never saved.
+  @state() private detectedLocale?: Locale;
+  private captionTimer?: ReturnType<typeof setTimeout>;
+  /** Recent metrics on this device, for support to download. */
+  readonly metricsBuffer = new IndexedDbReporter();
+  readonly metrics = new SessionMetrics(
+    createMetricsReporter(this.metricsBuffer),
+  );
+  private onPageHide = () => this.metrics.ended('Page closed');
+  private contrastQuery = window.matchMedia('(prefers-contrast: more)');
+  private onContrastChange = () => this.requestUpdate();
+  @state() location?: ResolvedLocation;
+  private manualLocation = localStorage.getItem(MANUAL_LOCATION_KEY) ?? '';
+  private geocoder = new NominatimGeocoder();
+  private browserLocation = new CachedLocationProvider(
+    new BrowserLocationProvider(this.geocoder),
+  );
+  private directory = createDirectoryProvider();
+  private bookings = createBookingBackend(this.directory);
+  // Drops availability answers for a date the user has since moved on from.
+  private slotsRequest = 0;
+  private tools = registerBookingTools(
+    registerAvatarTools(
+      registerDirectoryTools(
+        new ToolRegistry(),
+        this.directory,
+        () => this.location?.point,
+      ),
+      () => this.avatar,
+    ),
+    this.bookings,
+    this.directory,
+    (draft) => this.reviewBooking(draft),
+  );
+  private conversation = new Conversation();
+  /** Both sides of the conversation, for quality review; see `ConversationRecorder`. */
+  recorder: ConversationRecorder;
 
   static styles = css`
+    :host {
+      display: block;
+      position: fixed;
+      inset: 0;
+    }
+
+    :host([position='inline']) {
+      position: relative;
+      inset: auto;
+      min-height: 480px;
+    }
+
+    :host([position='bubble']) {
+      inset: auto;
+      right: 24px;
+      bottom: 24px;
+      z-index: 2147483000;
+    }
+
+    /* Everything but the launcher; the avatar fills it. */
+    .panel {
+      position: absolute;
+      inset: 0;
+      overflow: hidden;
+      container-type: size;
+    }
+
+    :host([position='bubble']) .panel {
+      inset: auto;
+      right: 0;
+      bottom: 80px;
+      width: min(400px, calc(100vw - 48px));
+      height: min(640px, calc(100vh - 128px));
+      border-radius: 16px;
+      box-shadow: 0 8px 32px rgba(0, 0, 0, 0.35);
+    }
+
+    :host([position='bubble']:not([open])) .panel {
+      display: none;
+    }
+
+    .launcher {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 64px;
+      height: 64px;
+      padding: 0;
+      border: none;
+      border-radius: 50%;
+      background: #4a8d3b;
+      box-shadow: 0 4px 16px rgba(0, 0, 0, 0.35);
+      cursor: pointer;
+
+      &:focus-visible {
+        outline: 3px solid #ffd400;
+        outline-offset: 2px;
+      }
+    }
+
+    gdm-settings-panel {
+      position: absolute;
+      top: 2%;
+      left: 2%;
+      max-height: 90%;
+      z-index: 20;
+    }
+
+    gdm-recording-panel {
+      position: absolute;
+      top: 2%;
+      left: 50%;
+      transform: translateX(-50%);
+      z-index: 30;
+    }
+
+    gdm-booking-card {
+      position: absolute;
+      top: 2%;
+      left: 50%;
+      transform: translateX(-50%);
+      max-width: 96%;
+      max-height: 90%;
+      overflow-y: auto;
+      z-index: 25;
+    }
+
+    gdm-diagnostics-panel {
+      position: absolute;
+      bottom: 2%;
+      left: 2%;
+      z-index: 15;
+    }
+
+    gdm-transcript-panel {
+      position: absolute;
+      top: 2%;
+      right: 2%;
+      bottom: 2%;
+      width: min(360px, 40%);
+      z-index: 10;
+    }
+
     #status {
       position: absolute;
-      bottom: 5vh;
+      bottom: 5%;
       left: 0;
       right: 0;
       z-index: 10;
       text-align: center;
     }
 
+    #captions {
+      position: absolute;
+      bottom: 25%;
+      left: 2%;
+      /* Clear of the transcript panel. */
+      right: calc(min(360px, 40%) + 4%);
+      z-index: 10;
+      display: flex;
+      justify-content: center;
+      pointer-events: none;
+
+      span {
+        max-width: 720px;
+        padding: 8px 16px;
+        border-radius: 8px;
+        background: rgba(0, 0, 0, 0.75);
+        color: white;
+        font: 22px/1.4 system-ui, sans-serif;
+        text-align: center;
+      }
+    }
+
     .controls {
       z-index: 10;
       position: absolute;
-      bottom: 15vh;
+      bottom: 15%;
       left: 0;
       right: 0;
       display: flex;
@@ -70,146 +459,888 @@ export class GdmLiveAudio extends LitElement {
         &:hover {
           background: rgba(255, 255, 255, 0.2);
         }
+
+        &:focus-visible {
+          outline: 3px solid #ffd400;
+          outline-offset: 2px;
+        }
       }
 
       button[disabled] {
         display: none;
       }
     }
+
+    /* Phones and small embeds: the transcript goes under the avatar. */
+    @container (max-width: 640px) {
+      gdm-transcript-panel {
+        top: auto;
+        left: 2%;
+        width: auto;
+        height: 30%;
+      }
+
+      .controls {
+        bottom: 42%;
+      }
+
+      #status {
+        bottom: 34%;
+      }
+
+      #captions {
+        top: 2%;
+        bottom: auto;
+        right: 2%;
+
+        span {
+          font-size: 16px;
+        }
+      }
+    }
+
+    :host([theme='light']) {
+      #status {
+        color: #1f1f1f;
+      }
+
+      .controls button {
+        background: rgba(0, 0, 0, 0.55);
+      }
+    }
+
+    :host([high-contrast]) {
+      .controls button {
+        background: black;
+        border: 2px solid white;
+      }
+
+      #status {
+        color: white;
+        font-weight: 600;
+
+        div:not(:empty) {
+          display: inline-block;
+          padding: 4px 12px;
+          background: black;
+          border: 2px solid white;
+        }
+      }
+
+      #captions span {
+        background: black;
+        color: #ffd400;
+        border: 2px solid white;
+      }
+
+      gdm-settings-panel,
+      gdm-transcript-panel,
+      gdm-recording-panel,
+      gdm-booking-card {
+        background: black;
+        border: 2px solid white;
+      }
+    }
   `;
 
   constructor() {
     super();
+    this.conversation.addEventListener('change', () => {
+      this.turns = [...this.conversation.turns];
+      this.updateCaption();
+      const last = this.turns.at(-1);
+      if (last) this.emit('transcript', { turn: { ...last } });
+    });
+    this.vad.addEventListener('speechstart', () => this.onUserSpeechStart());
+    this.vad.addEventListener('speechend', () => this.onUserSpeechEnd());
+    this.wakeWord.addEventListener('detected', () => this.wake());
+    this.devices.addEventListener('change', () => this.onDevicesChange());
+    this.metrics.addEventListener('change', () => {
+      this.metricsSnapshot = { ...this.metrics.snapshot };
+    });
+    if (this.bookings instanceof QueuedBookingBackend) {
+      this.bookings.addEventListener('sent', (e) =>
+        this.onQueuedBookingSent((e as CustomEvent<BookingSentDetail>).detail),
+      );
+      this.bookings.addEventListener('rejected', (e) =>
+        this.onQueuedBookingRejected(
+          (e as CustomEvent<BookingRejectedDetail>).detail,
+        ),
+      );
+    }
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    window.addEventListener('keydown', this.onKeyDown);
+    window.addEventListener('keyup', this.onKeyUp);
+    this.contrastQuery.addEventListener('change', this.onContrastChange);
+    window.addEventListener('pagehide', this.onPageHide);
+    this.createAudio();
+    // Moved or re-inserted after `disconnectedCallback`: start a new session.
+    if (this.assistantProfile) this.initSession();
+  }
+
+  /**
+   * Removing the element releases the mic, the session and the audio
+   * graph; adding it again builds them anew.
+   */
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    window.removeEventListener('keydown', this.onKeyDown);
+    window.removeEventListener('keyup', this.onKeyUp);
+    this.contrastQuery.removeEventListener('change', this.onContrastChange);
+    window.removeEventListener('pagehide', this.onPageHide);
+
+    if (this.isRecording) this.stopRecording();
+    this.capture.stop();
+    this.closeMicrophone();
+    this.player.stop();
+    this.isRecordingConversation = false;
+    this.connection?.close('Element removed');
+    this.inputAudioContext.close();
+    this.outputAudioContext.close();
+  }
+
+  private createAudio() {
+    // Runs at the device rate; the capture worklet resamples to 16 kHz.
+    this.inputAudioContext = new (window.AudioContext ||
+      window.webkitAudioContext)();
+    this.outputAudioContext = new (window.AudioContext ||
+      window.webkitAudioContext)({ sampleRate: 24000 });
+    this.inputNode = this.inputAudioContext.createGain();
+    this.outputNode = this.outputAudioContext.createGain();
+    this.outputNode.connect(this.outputAudioContext.destination);
+    this.player = new ReplyPlayer(
+      this.outputAudioContext,
+      this.outputNode,
+      () => this.avatar,
+      { onAudio: (lateMs) => this.metrics.audioReceived(lateMs) },
+    );
+    this.capture = new AudioCapture(this.inputAudioContext, (pcm) =>
+      this.sendMicFrame(pcm),
+    );
+    this.recorder = new ConversationRecorder(
+      { user: this.inputNode, assistant: this.outputNode },
+      { webm: true },
+    );
+    // The new output context plays on the default device until told otherwise.
+    this.activeOutputId = '';
+    this.applyAudioSettings();
+  }
+
+  /** Whether a key press belongs to a form field rather than to us. */
+  private isTyping(e: KeyboardEvent) {
+    const target = e.composedPath()[0] as HTMLElement;
+    return !!target.closest?.('input, textarea, select, [contenteditable]');
+  }
+
+  /**
+   * Full screen we own the keyboard; embedded in a page, only keys pressed
+   * while focus is inside the widget are ours.
+   */
+  private ownsKey(e: KeyboardEvent) {
+    return this.position === 'fullscreen' || e.composedPath().includes(this);
+  }
+
+  /** Space is push-to-talk, unless the user is typing somewhere. */
+  private isTalkKey(e: KeyboardEvent) {
+    return (
+      e.code === 'Space' &&
+      this.settings.inputMode === 'push-to-talk' &&
+      this.ownsKey(e) &&
+      !this.isTyping(e)
+    );
+  }
+
+  /**
+   * Shortcuts: M starts or stops the mic, Escape closes a panel or stops
+   * the mic, N starts a new conversation, "," opens the settings and C
+   * toggles captions.
+   */
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (this.isTalkKey(e)) {
+      e.preventDefault();
+      if (!e.repeat) this.startTalking();
+      return;
+    }
+    if (
+      e.repeat ||
+      e.ctrlKey ||
+      e.metaKey ||
+      e.altKey ||
+      this.isTyping(e) ||
+      !this.ownsKey(e)
+    ) {
+      return;
+    }
+    switch (e.key.toLowerCase()) {
+      case 'm':
+        if (this.isRecording) this.stopRecording();
+        else if (this.canStart) this.startRecording();
+        break;
+      case 'escape':
+        if (this.showSettings) this.showSettings = false;
+        else if (this.showRecordingPanel) this.closeRecordingPanel();
+        else if (this.isRecording) this.stopRecording();
+        else if (this.position === 'bubble') this.open = false;
+        break;
+      case 'n':
+        if (!this.isRecording) this.reset();
+        break;
+      case ',':
+        this.showSettings = !this.showSettings;
+        break;
+      case 'c':
+        this.updateSettings({ captions: !this.settings.captions });
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  /** Whether the mic may be started now. */
+  private get canStart() {
+    return (
+      this.connectionState !== 'failed' && this.connectionState !== 'closed'
+    );
+  }
+
+  private onKeyUp = (e: KeyboardEvent) => {
+    if (!this.isTalkKey(e)) return;
+    e.preventDefault();
+    this.stopTalking();
+  };
+
+  protected firstUpdated() {
     this.initClient();
   }
 
-  private initAudio() {
-    this.nextStartTime = this.outputAudioContext.currentTime;
+  protected updated(changed: Map<string, unknown>) {
+    // The first profile is loaded by initClient.
+    if (changed.has('profile') && this.assistantProfile) {
+      this.switchProfile(profileNameFor(this.profile));
+    }
+    // Closing the bubble shouldn't leave the mic listening.
+    if (
+      changed.has('open') &&
+      !this.open &&
+      this.position === 'bubble' &&
+      this.isRecording
+    ) {
+      this.stopRecording();
+    }
   }
 
   private async initClient() {
-    this.initAudio();
 
-    this.client = new GoogleGenAI({
-      apiKey: process.env.GEMINI_API_KEY,
+    this.connection = new LiveConnection(this.transport ?? this.defaultTransport(), {
+      params: () => ({
+        model: this.assistantProfile.model,
+        config: this.sessionConfig(),
+      }),
+      onmessage: (message) => this.handleMessage(message),
     });
+    this.connection.addEventListener('statechange', (e) =>
+      this.onConnectionState((e as CustomEvent<ConnectionStateDetail>).detail),
+    );
 
-    this.outputNode.connect(this.outputAudioContext.destination);
+    this.devices.refresh();
+
+    listProfiles(this.resolveUrl('profiles'))
+      .then((profiles) => (this.profiles = profiles))
+      .catch((e) => console.error('Error listing profiles:', e));
+    try {
+      this.assistantProfile = await loadProfile(
+        profileNameFor(this.profile),
+        this.resolveUrl('profiles'),
+      );
+    } catch (e) {
+      console.error(e);
+      this.updateError(e.message);
+      return;
+    }
 
     this.initSession();
   }
 
-  private async initSession() {
-    const model = 'gemini-live-2.5-flash-preview';
-    async function getLocationName(lat: number, lon: number): Promise<string> {
-      try {
-        const res = await fetch(
-          `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lon}`
-        );
-        const data = await res.json();
-        return data.display_name || "Unknown location";
-      } catch (err) {
-        console.error("Error fetching location name:", err);
-        return "Unknown location";
-      }
+  /**
+   * `?transport=mock` plays a canned session and `LIVE_SERVER_URL` picks a
+   * server; otherwise sessions go through the key-holding proxy at
+   * `LIVE_PROXY_URL` (default: `baseUrl`), with a fresh token per connect.
+   * `?record` keeps what the server sends, for `npm run mock-server` to
+   * replay; the diagnostics panel downloads it.
+   */
+  private defaultTransport(): LiveTransport {
+    const params = new URLSearchParams(location.search);
+    let transport: LiveTransport;
+    if (params.get('transport') === 'mock') {
+      transport = new MockTransport(DEMO_SCRIPT);
+    } else if (process.env.LIVE_SERVER_URL) {
+      transport = new WebSocketTransport(process.env.LIVE_SERVER_URL);
+    } else {
+      transport = new WebSocketTransport(() =>
+        proxySocketUrl(process.env.LIVE_PROXY_URL || this.resolveUrl('.')),
+      );
     }
+    if (!params.has('record')) return transport;
+    this.sessionRecorder = new RecordingTransport(transport);
+    return this.sessionRecorder;
+  }
+
+  /** `path` relative to `baseUrl`. */
+  private resolveUrl(path: string) {
+    const base =
+      this.baseUrl || GdmLiveAudio.defaultBaseUrl || `${location.origin}/`;
+    return new URL(path, new URL(base, location.href)).href;
+  }
 
+  private async switchProfile(name: string) {
+    if (name === this.assistantProfile?.name) return;
     try {
-      const now = new Date();
-      const dateTime = now.toLocaleString();
+      this.assistantProfile = await loadProfile(name, this.resolveUrl('profiles'));
+    } catch (e) {
+      console.error(e);
+      this.updateError(e.message);
+      return;
+    }
+    this.updateError('');
+    this.conversation.clear();
+    this.connection.open();
+  }
 
-      let locationName = "Unknown location";
-      const pos = await new Promise<GeolocationPosition>((resolve, reject) => {
-        navigator.geolocation.getCurrentPosition(resolve, reject);
-      });
-      locationName = await getLocationName(
-        pos.coords.latitude,
-        pos.coords.longitude
-      );
-      this.session = await this.client.live.connect({
-        model: model,
-        callbacks: {
-          onopen: () => {
-            this.updateStatus('Opened');
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            const audio = message.serverContent?.modelTurn?.parts[0]?.inlineData;
-
-            if (audio) {
-              // Set avatar to 'speak' mode when audio is received
-              this.avatar.startSpeaking();
-
-              this.nextStartTime = Math.max(
-                this.nextStartTime,
-                this.outputAudioContext.currentTime,
-              );
-
-              const audioBuffer = await decodeAudioData(
-                decode(audio.data),
-                this.outputAudioContext,
-                24000,
-                1,
-              );
-              const source = this.outputAudioContext.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(this.outputNode);
-              source.addEventListener('ended', () => {
-                this.sources.delete(source);
-                // Return to 'idle' mode when audio playback ends
-                if (this.sources.size === 0) {
-                  this.avatar.goIdle();
-                }
-              });
-
-              source.start(this.nextStartTime);
-              this.nextStartTime = this.nextStartTime + audioBuffer.duration;
-              this.sources.add(source);
-            }
-
-            const interrupted = message.serverContent?.interrupted;
-            if (interrupted) {
-              for (const source of this.sources.values()) {
-                source.stop();
-                this.sources.delete(source);
-              }
-              this.nextStartTime = 0;
-              // Return to 'idle' mode on interruption
-              this.avatar.goIdle();
-            }
-          },
-          onerror: (e: ErrorEvent) => {
-            this.updateError(e.message);
-            this.avatar.goIdle(); // Ensure idle on error
-          },
-          onclose: (e: CloseEvent) => {
-            this.updateStatus('Close:' + e.reason);
-            this.avatar.goIdle(); // Ensure idle on session close
-          },
+  private async initSession() {
+    await this.resolveLocation();
+    this.connection.open();
+  }
+
+  /** Manual entry, then the browser, then the profile's home city. */
+  private async resolveLocation() {
+    const fallback = this.assistantProfile?.defaultLocation;
+    const provider = new FallbackLocationProvider([
+      new ManualLocationProvider(this.manualLocation, this.geocoder),
+      this.browserLocation,
+      new StaticLocationProvider(
+        fallback && {
+          name: fallback.name,
+          point:
+            fallback.lat !== undefined
+              ? { lat: fallback.lat, lon: fallback.lon }
+              : undefined,
+          source: 'profile',
         },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Orus' } },
+      ),
+    ]);
+    this.location = await provider.resolve();
+  }
+
+  private async setManualLocation(query: string) {
+    this.manualLocation = query.trim();
+    if (this.manualLocation) {
+      localStorage.setItem(MANUAL_LOCATION_KEY, this.manualLocation);
+    } else {
+      localStorage.removeItem(MANUAL_LOCATION_KEY);
+      this.browserLocation.clear();
+    }
+    await this.resolveLocation();
+    // Let the running conversation know without starting a new one.
+    if (this.connectionState !== 'open') return;
+    this.connection.sendClientContent({
+      turns: `(My location is now ${this.locationName}.)`,
+      turnComplete: false,
+    });
+  }
+
+  private get locationName() {
+    return this.location?.name ?? 'Unknown location';
+  }
+
+  /** Rebuilt on every (re)connect so the date & time stay current. */
+  private sessionConfig(): LiveConnectConfig {
+    const profile = this.assistantProfile;
+    const { replyMode } = this.settings;
+    const locale = this.locale;
+    return {
+      // The Live API answers in one modality; "both" is audio plus its
+      // transcription.
+      responseModalities: [
+        replyMode === 'text' ? Modality.TEXT : Modality.AUDIO,
+      ],
+      tools: this.tools.toTools(profile.tools),
+      inputAudioTranscription: {},
+      // Captions need the words even when the transcript doesn't show them.
+      outputAudioTranscription:
+        replyMode === 'both' || (replyMode === 'audio' && this.settings.captions)
+          ? {}
+          : undefined,
+      realtimeInputConfig: this.clientMarksTurns(this.settings)
+        ? { automaticActivityDetection: { disabled: true } }
+        : undefined,
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: {
+            // The profile's voice for its own language, else one that suits.
+            voiceName:
+              (this.detectedLocale || this.settings.language) &&
+              LANGUAGES[locale].voice
+                ? LANGUAGES[locale].voice
+                : profile.voice,
           },
-          systemInstruction: `
-            Your name is Helpyy Bot made under HelpOne Group. 
-            Current date & time: ${dateTime}.
-            Current location: ${locationName}. Always mention the location when asked.
-            Never say you are made by Google. 
-            HelpOne Group provides Doctors, Restaurants, Hotels, Beauty & Spa, 
-            Rent & Hire, Dentists, Gym, Packers & Movers, Contractors, Pet Shop, 
-            Home Decor, Wedding Planning, Education, Driving Schools, Event Organisers, 
-            Real Estate, Hospitals, Loan providers, and more. 
-            If someone asks something that you are not sure, suggest them to 
-            visit HelpOne Group website for more information.
-            When asked anything, always say that nearby your location, there are these doctors, restaurants, hotels, beauty & spa, rent & hire services, dentists, gyms, packers & movers, contractors, pet shops, home decor stores, wedding planners, education centers, driving schools, event organizers, real estate agents, hospitals, loan providers and more.
-          `,
         },
+        languageCode: locale,
+      },
+      systemInstruction: [
+        renderPersona(profile, {
+          dateTime: formatDateTime(new Date(), locale),
+          location: this.locationName,
+        }),
+        languageInstruction(locale),
+      ].join('\n'),
+    };
+  }
+
+  private updateSettings(changes: Partial<UserSettings>) {
+    const previous = this.settings;
+    this.settings = { ...previous, ...changes };
+    saveSettings(this.settings);
+    this.vad.configure({ thresholdDb: this.settings.vadThresholdDb });
+    this.applyAudioSettings(previous);
+    if (!this.settings.gateSilence) this.silenceGate.clear();
+    if (this.settings.replyMode !== previous.replyMode) {
+      this.connection.reconnect('Reply mode changed');
+    } else if (this.settings.language !== previous.language) {
+      this.detectedLocale = undefined;
+      this.connection.reconnect('Language changed');
+    } else if (
+      this.settings.captions !== previous.captions &&
+      this.settings.replyMode === 'audio'
+    ) {
+      this.connection.reconnect('Captions changed');
+    } else if (
+      this.clientMarksTurns(this.settings) !== this.clientMarksTurns(previous)
+    ) {
+      this.connection.reconnect('Turn detection changed');
+    }
+    if (this.settings.inputMode !== previous.inputMode) {
+      this.stopTalking();
+      this.awake = false;
+      this.silenceGate.clear();
+      this.wakeWord.reset();
+      if (this.isRecording) this.updateStatus(this.listeningStatus());
+    }
+  }
+
+  /** Whether we send activity signals instead of the server detecting speech. */
+  private clientMarksTurns({ clientTurns, inputMode }: UserSettings) {
+    return clientTurns || inputMode === 'push-to-talk';
+  }
+
+  /**
+   * The detected language, else the chosen one, else the profile's if we
+   * have strings for it.
+   */
+  private get locale(): Locale {
+    const profileLanguage = this.assistantProfile?.language ?? '';
+    return (
+      this.detectedLocale ||
+      this.settings.language ||
+      (isLocale(profileLanguage) ? profileLanguage : 'en-IN')
+    );
+  }
+
+  /** UI strings in the current language. */
+  private get strings() {
+    return messages(this.locale);
+  }
+
+  /** What the status line says while the mic is open. */
+  private listeningStatus() {
+    switch (this.settings.inputMode) {
+      case 'push-to-talk':
+        return this.strings.holdToTalk;
+      case 'wake-word':
+        return this.wakeWord.ready
+          ? this.strings.sayWakePhrase(WAKE_PHRASE)
+          : this.strings.recordWakePhraseFirst;
+      default:
+        return `🔴 ${this.strings.micOn}`;
+    }
+  }
+
+  /** The assistant's current words for the captions; they clear after it stops. */
+  private updateCaption() {
+    clearTimeout(this.captionTimer);
+    const last = this.conversation.turns.at(-1);
+    if (last?.speaker !== 'assistant') {
+      this.caption = '';
+      return;
+    }
+    this.caption =
+      last.text.length > CAPTION_CHARS
+        ? '…' + last.text.slice(-CAPTION_CHARS).replace(/^\S*\s+/, '')
+        : last.text;
+    if (last.final) {
+      this.captionTimer = setTimeout(() => (this.caption = ''), CAPTION_HOLD_MS);
+    }
+  }
+
+  /** Switch to the language of the user's first sentence, if asked to. */
+  private checkLanguage() {
+    if (!this.settings.autoDetectLanguage || this.languageChecked) return;
+    this.languageChecked = true;
+    const said = [...this.conversation.turns]
+      .reverse()
+      .find((turn) => turn.speaker === 'user')?.text;
+    const detected = said && detectLanguage(said);
+    // The persona already has the model answer in the user's language, so
+    // the session carries on; the UI and later sessions follow it.
+    if (detected && detected !== this.locale) this.detectedLocale = detected;
+  }
+
+  /**
+   * One mic frame: run the VAD, hold back silence if asked to, and mark
+   * the user's turns ourselves when the server's detection is off.
+   */
+  private sendMicFrame(pcm: Float32Array) {
+    if (!this.isRecording) return;
+    const { gateSilence, clientTurns, inputMode } = this.settings;
+    const wasSpeaking = this.vad.speaking;
+    const speaking = this.vad.process(pcm);
+
+    if (inputMode === 'push-to-talk' && !this.enrollingWakeWord) {
+      if (!this.talking) return;
+      this.connection.sendRealtimeInput({
+        media: createBlob(pcm, this.capture.targetRate),
+        activityStart: this.talkTurnOpen ? undefined : {},
+      });
+      this.talkTurnOpen = true;
+      return;
+    }
+
+    // Nothing is streamed until the wake phrase is heard.
+    if (
+      this.enrollingWakeWord ||
+      (inputMode === 'wake-word' && !this.awake)
+    ) {
+      this.wakeWord.push(pcm, speaking || wasSpeaking);
+      return;
+    }
+    if (inputMode === 'wake-word' && this.sleepIfIdle(speaking)) return;
+    // The frame that ends speech still belongs to it.
+    const frames = gateSilence
+      ? this.silenceGate.push(pcm, speaking || wasSpeaking)
+      : [pcm];
+    frames.forEach((frame, i) => {
+      const last = i === frames.length - 1;
+      this.connection.sendRealtimeInput({
+        media: createBlob(frame, this.capture.targetRate),
+        activityStart:
+          clientTurns && i === 0 && speaking && !wasSpeaking ? {} : undefined,
+        activityEnd:
+          clientTurns && last && wasSpeaking && !speaking ? {} : undefined,
       });
+    });
+  }
+
+  /** Barge-in: don't wait for the server to notice the user talking. */
+  private onUserSpeechStart() {
+    const { inputMode, bargeIn } = this.settings;
+    // Pressing the talk key already cut the assistant off.
+    if (inputMode === 'push-to-talk') return;
+    if (inputMode === 'wake-word' && !this.awake) return;
+    this.bargeIn(bargeIn);
+  }
+
+  private onUserSpeechEnd() {
+    this.restoreVolume();
+    const { inputMode } = this.settings;
+    const streaming =
+      inputMode === 'hands-free' || (inputMode === 'wake-word' && this.awake);
+    if (this.isRecording && streaming) {
+      // The VAD only calls it once the hangover has passed.
+      this.metrics.userTurnEnded(performance.now() - this.vad.hangoverMs);
+    }
+  }
+
+  private bargeIn(mode: BargeIn) {
+    if (!this.player.playing) return;
+    switch (mode) {
+      case 'duck':
+        this.outputNode.gain.setTargetAtTime(
+          DUCK_GAIN * this.settings.outputVolume,
+          this.outputAudioContext.currentTime,
+          0.03,
+        );
+        break;
+      case 'stop':
+        this.player.interrupt();
+        this.resetVolume();
+        this.metrics.interrupted('client');
+        this.conversation.interrupt();
+        break;
+    }
+  }
+
+  /** Push-to-talk pressed: cut the assistant off and open the mic. */
+  private async startTalking() {
+    if (this.talking) return;
+    this.talking = true;
+    this.bargeIn('stop');
+    this.avatar?.startListening();
+    if (!this.isRecording) await this.startRecording();
+  }
+
+  /** Push-to-talk released: end the user's turn. */
+  private stopTalking() {
+    if (!this.talking) return;
+    this.talking = false;
+    if (!this.talkTurnOpen) return;
+    this.talkTurnOpen = false;
+    this.sendActivityEnd();
+    this.metrics.userTurnEnded();
+    this.avatar?.startThinking();
+  }
+
+  /** Close a turn we marked ourselves; the transport wants media with it. */
+  private sendActivityEnd() {
+    this.connection.sendRealtimeInput({
+      media: createBlob(new Float32Array(0), this.capture.targetRate),
+      activityEnd: {},
+    });
+  }
+
+  private wake() {
+    this.awake = true;
+    this.lastActivity = performance.now();
+    this.updateStatus(this.strings.listening);
+    this.avatar?.playGesture('nod');
+    this.avatar?.startListening();
+  }
+
+  /** In wake-word mode, go back to waiting for the phrase after a quiet spell. */
+  private sleepIfIdle(speaking: boolean) {
+    const now = performance.now();
+    if (speaking || this.player.playing) this.lastActivity = now;
+    if (now - this.lastActivity < WAKE_TIMEOUT_MS) return false;
+    this.awake = false;
+    this.silenceGate.clear();
+    this.updateStatus(this.listeningStatus());
+    return true;
+  }
+
+  /** Record a few samples of the wake phrase, replacing any earlier ones. */
+  private async trainWakeWord() {
+    if (this.enrollingWakeWord) return;
+    this.showSettings = false;
+    await this.startRecording();
+    if (!this.isRecording) return;
+    this.enrollingWakeWord = true;
+    this.wakeWord.templates = [];
+    try {
+      for (let i = 1; i <= WAKE_SAMPLES; i++) {
+        this.updateStatus(
+          this.strings.wakeSample(WAKE_PHRASE, i, WAKE_SAMPLES),
+        );
+        await this.wakeWord.enroll();
+      }
+      saveWakeTemplates([...this.wakeWord.templates]);
+      this.updateStatus(
+        `${this.strings.wakeSaved} ${this.listeningStatus()}`,
+      );
+    } catch {
+      this.wakeWord.templates = loadWakeTemplates();
+    } finally {
+      this.enrollingWakeWord = false;
+    }
+  }
+
+  private restoreVolume() {
+    this.outputNode.gain.setTargetAtTime(
+      this.settings.outputVolume,
+      this.outputAudioContext.currentTime,
+      0.1,
+    );
+  }
+
+  /** Undo ducking at once, e.g. when the reply it ducked is dropped. */
+  private resetVolume() {
+    const gain = this.outputNode.gain;
+    gain.cancelScheduledValues(this.outputAudioContext.currentTime);
+    gain.setValueAtTime(
+      this.settings.outputVolume,
+      this.outputAudioContext.currentTime,
+    );
+  }
+
+  /** Gains, the speaker, and the mic if its settings changed since `previous`. */
+  private applyAudioSettings(previous?: UserSettings) {
+    const settings = this.settings;
+    this.inputNode.gain.value = settings.inputGain;
+    this.restoreVolume();
+    this.applyOutputDevice();
+    const micChanged =
+      previous &&
+      (
+        [
+          'inputDeviceId',
+          'echoCancellation',
+          'noiseSuppression',
+          'autoGainControl',
+        ] as const
+      ).some((key) => settings[key] !== previous[key]);
+    if (micChanged && this.isRecording) this.reopenMicrophone();
+  }
+
+  /**
+   * Follow hot-plugging: fall back to the default device when the chosen one
+   * goes away, and return to it when it comes back.
+   */
+  private onDevicesChange() {
+    this.requestUpdate();
+    const input = this.devices.input(this.settings.inputDeviceId);
+    if (this.isRecording && input !== this.activeInputId) {
+      this.reopenMicrophone();
+    }
+    this.applyOutputDevice();
+  }
+
+  private async applyOutputDevice() {
+    if (!canChooseOutput()) return;
+    const deviceId = this.devices.output(this.settings.outputDeviceId);
+    if (deviceId === this.activeOutputId) return;
+    try {
+      await setOutputDevice(this.outputAudioContext, deviceId);
+      this.activeOutputId = deviceId;
     } catch (e) {
-      console.error(e);
-      this.avatar?.goIdle(); // Ensure idle on session init failure
+      console.error('Error choosing the speaker:', e);
+      this.updateError(this.strings.speakerError(e.message));
+    }
+  }
+
+  /** Open the chosen microphone, or the default one if it isn't plugged in. */
+  private async openMicrophone() {
+    const deviceId = this.devices.input(this.settings.inputDeviceId);
+    const stream = await navigator.mediaDevices.getUserMedia(
+      micConstraints(deviceId, this.settings),
+    );
+    this.closeMicrophone();
+    this.mediaStream = stream;
+    this.activeInputId = deviceId;
+    this.sourceNode = this.inputAudioContext.createMediaStreamSource(stream);
+    this.sourceNode.connect(this.inputNode);
+  }
+
+  private async reopenMicrophone() {
+    try {
+      await this.openMicrophone();
+    } catch (e) {
+      console.error('Error switching microphone:', e);
+      this.updateError(this.strings.micError(e.message));
+    }
+  }
+
+  private closeMicrophone() {
+    this.sourceNode?.disconnect();
+    this.sourceNode = null;
+    this.mediaStream?.getTracks().forEach((track) => track.stop());
+    this.mediaStream = null;
+  }
+
+  /** Send a typed message; false if there is no open session to send it to. */
+  sendText(text: string) {
+    if (this.connectionState !== 'open' || !text.trim()) return false;
+    this.conversation.addTurn('user', text);
+    this.metrics.userTurnEnded();
+    this.avatar?.startThinking();
+    this.connection.sendClientContent({ turns: text, turnComplete: true });
+    return true;
+  }
+
+  private async handleMessage(message: LiveServerMessage) {
+    if (message.toolCall) {
+      this.handleToolCall(message.toolCall);
+    }
+
+    if (message.serverContent) {
+      const content = message.serverContent;
+      this.conversation.handleServerContent(
+        this.player.bargedIn
+          ? { ...content, modelTurn: undefined, outputTranscription: undefined }
+          : content,
+      );
+      if (content.inputTranscription?.finished) {
+        this.checkLanguage();
+      }
+      if (content.interrupted) {
+        this.metrics.interrupted('server');
+        this.resetVolume();
+      }
+    }
+
+    await this.player.handle(message);
+
+    if (message.serverContent?.turnComplete) {
+      this.metrics.replyEnded();
+      const reply = this.conversation.turns.at(-1);
+      this.emit('turn-complete', {
+        turn: reply?.speaker === 'assistant' ? { ...reply } : undefined,
+      });
+    }
+  }
+
+  private onConnectionState({ state, reason, attempt }: ConnectionStateDetail) {
+    const previous = this.connectionState;
+    this.connectionState = state;
+    switch (state) {
+      case 'connecting':
+        this.metrics.connecting();
+        this.updateStatus(this.strings.connecting);
+        break;
+      case 'open':
+        this.metrics.opened(previous !== 'connecting');
+        this.updateError('');
+        this.updateStatus(this.strings.opened);
+        this.emit('session-open', {
+          profile: this.assistantProfile?.name,
+          resumed: previous !== 'connecting',
+        });
+        // Greet new sessions; a resumed one carries on where it was.
+        if (previous === 'connecting') {
+          this.avatar?.playGesture('wave');
+          this.languageChecked = false;
+        }
+        break;
+      case 'reconnecting':
+        this.metrics.connecting();
+        this.updateStatus(this.strings.reconnecting(attempt));
+        break;
+      case 'closed':
+        this.metrics.closed(reason);
+        this.updateStatus(this.strings.closed(reason));
+        break;
+      case 'failed':
+        this.metrics.closed(reason);
+        this.updateError(this.strings.connectionFailed(reason));
+        this.stopRecording();
+        break;
     }
+    if (state !== 'open') this.avatar?.goIdle();
+  }
+
+  private async handleToolCall(toolCall: LiveServerToolCall) {
+    const calls = toolCall.functionCalls ?? [];
+    const functionResponses = await Promise.all(
+      calls.map((call) => this.tools.call(call, this.assistantProfile.tools)),
+    );
+    this.connection.sendToolResponse({ functionResponses });
+    calls.forEach(({ name, args }, i) =>
+      this.emit('tool-call', {
+        name,
+        args,
+        response: functionResponses[i].response,
+      }),
+    );
   }
 
   private updateStatus(msg: string) {
@@ -218,6 +1349,24 @@ export class GdmLiveAudio extends LitElement {
 
   private updateError(msg: string) {
     this.error = msg;
+    if (!msg) return;
+    this.metrics.error(msg);
+    this.emit('error', { message: msg });
+  }
+
+  private emit(type: string, detail: unknown) {
+    this.dispatchEvent(new CustomEvent(type, { detail }));
+  }
+
+  /** Open the mic, and the bubble; resolves once listening or failed. */
+  async start() {
+    if (this.position === 'bubble') this.open = true;
+    await this.startRecording();
+  }
+
+  /** Close the mic; the session stays open for typed messages. */
+  stop() {
+    this.stopRecording();
   }
 
   private async startRecording() {
@@ -227,46 +1376,27 @@ export class GdmLiveAudio extends LitElement {
 
     this.inputAudioContext.resume();
 
-    this.updateStatus('Requesting microphone access...');
+    this.updateStatus(this.strings.requestingMic);
 
     try {
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({
-        audio: true,
-        video: false,
-      });
-
-      this.updateStatus('Microphone access granted. Starting capture...');
-
-      this.sourceNode = this.inputAudioContext.createMediaStreamSource(
-        this.mediaStream,
-      );
-      this.sourceNode.connect(this.inputNode);
-
-      const bufferSize = 256;
-      this.scriptProcessorNode = this.inputAudioContext.createScriptProcessor(
-        bufferSize,
-        1,
-        1,
-      );
-
-      this.scriptProcessorNode.onaudioprocess = (audioProcessingEvent) => {
-        if (!this.isRecording) return;
-
-        const inputBuffer = audioProcessingEvent.inputBuffer;
-        const pcmData = inputBuffer.getChannelData(0);
+      await this.openMicrophone();
 
-        this.session.sendRealtimeInput({ media: createBlob(pcmData) });
-      };
+      this.updateStatus(this.strings.micGranted);
 
-      this.sourceNode.connect(this.scriptProcessorNode);
-      this.scriptProcessorNode.connect(this.inputAudioContext.destination);
+      // Device IDs are only listed once the page may use the mic, so the
+      // chosen one may only now be found.
+      await this.devices.refresh();
+      if (this.devices.input(this.settings.inputDeviceId) !== this.activeInputId) {
+        await this.openMicrophone();
+      }
+      await this.capture.start(this.inputNode);
 
       this.isRecording = true;
-      this.updateStatus('🔴');
+      this.updateStatus(this.listeningStatus());
     } catch (err) {
       console.error('Error starting recording:', err);
-      this.updateStatus(`Error: ${err.message}`);
       this.stopRecording();
+      this.updateError(this.strings.error(err.message));
     }
   }
 
@@ -274,43 +1404,280 @@ export class GdmLiveAudio extends LitElement {
     if (!this.isRecording && !this.mediaStream && !this.inputAudioContext)
       return;
 
-    this.updateStatus('Stopping recording...');
+    this.updateStatus(this.strings.stopping);
 
     this.isRecording = false;
 
-    if (this.scriptProcessorNode && this.sourceNode && this.inputAudioContext) {
-      this.scriptProcessorNode.disconnect();
-      this.sourceNode.disconnect();
+    this.stopTalking();
+    const streaming =
+      this.settings.inputMode === 'hands-free' || this.awake;
+    if (this.settings.clientTurns && streaming && this.vad.speaking) {
+      this.sendActivityEnd();
     }
+    this.awake = false;
+    this.wakeWord.reset();
+    this.vad.reset();
+    this.silenceGate.clear();
+    this.capture.stop();
+    this.closeMicrophone();
 
-    this.scriptProcessorNode = null;
-    this.sourceNode = null;
+    this.updateStatus(this.strings.stopped);
+    this.avatar?.goIdle(); // Return to idle when recording stops
+  }
 
-    if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach((track) => track.stop());
-      this.mediaStream = null;
+  /** Stop a running conversation recording, or ask for consent to start one. */
+  private toggleConversationRecording() {
+    if (this.isRecordingConversation) {
+      this.stopConversationRecording();
+      return;
     }
+    this.clearRecordingFiles();
+    this.showRecordingPanel = true;
+  }
 
-    this.updateStatus('Recording stopped. Click Start to begin again.');
-    this.avatar?.goIdle(); // Return to idle when recording stops
+  private async startConversationRecording() {
+    this.showRecordingPanel = false;
+    this.inputAudioContext.resume();
+    this.outputAudioContext.resume();
+    try {
+      await this.recorder.start();
+      this.isRecordingConversation = true;
+    } catch (e) {
+      console.error('Error starting conversation recording:', e);
+      this.updateError(this.strings.recordError(e.message));
+    }
   }
 
-  private reset() {
-    this.session?.close();
+  private async stopConversationRecording() {
+    if (!this.isRecordingConversation) return;
+    this.isRecordingConversation = false;
+    const recording = await this.recorder.stop();
+    this.recordingFiles = this.exportRecording(recording);
+    this.showRecordingPanel = true;
+  }
+
+  private exportRecording(recording: Recording): RecordingFile[] {
+    const name = `helpyy-${recording.startedAt.toISOString().replace(/[:.]/g, '-')}`;
+    const transcript = recordingTranscript(recording, this.conversation.turns);
+    const files = [
+      { label: 'WAV', blob: recordingToWav(recording), ext: 'wav' },
+      { label: 'WebM', blob: recording.webm, ext: 'webm' },
+      {
+        label: this.strings.transcriptFile,
+        blob: new Blob([JSON.stringify(transcript, null, 2)], {
+          type: 'application/json',
+        }),
+        ext: 'json',
+      },
+    ];
+    return files
+      .filter((f) => f.blob)
+      .map((f) => ({
+        label: f.label,
+        href: URL.createObjectURL(f.blob),
+        filename: `${name}.${f.ext}`,
+      }));
+  }
+
+  private clearRecordingFiles() {
+    for (const file of this.recordingFiles) URL.revokeObjectURL(file.href);
+    this.recordingFiles = [];
+  }
+
+  /** Start a new conversation. */
+  reset() {
+    if (this.isRecording) this.stopRecording();
+    this.conversation.clear();
+    this.booking = undefined;
     this.initSession();
-    this.updateStatus('Session cleared.');
+    this.updateStatus(this.strings.sessionCleared);
     this.avatar?.goIdle(); // Return to idle on reset
   }
 
+  protected willUpdate(changed: Map<string, unknown>) {
+    if (changed.has('assistantProfile')) {
+      this.metrics.profile = this.assistantProfile?.name;
+    }
+    // Lets screen readers and fonts pick the right language.
+    this.lang = this.locale;
+    this.toggleAttribute(
+      'high-contrast',
+      this.settings.highContrast || this.contrastQuery.matches,
+    );
+  }
+
+  private get startLabel() {
+    return this.settings.inputMode === 'wake-word'
+      ? this.strings.listenForWakePhrase(WAKE_PHRASE)
+      : this.strings.start;
+  }
+
+  /** Save the metrics buffered on this device as a JSON file. */
+  private async downloadMetrics() {
+    try {
+      downloadJson('helpyy-metrics', await this.metricsBuffer.read());
+    } catch (e) {
+      console.error('Error reading metrics:', e);
+      this.updateError(e.message);
+    }
+  }
+
+  private downloadSessions() {
+    downloadJson('helpyy-sessions', this.sessionRecorder?.sessions ?? []);
+  }
+
+  /** Put up the card for a booking the assistant drafted. */
+  private reviewBooking(draft: BookingDetails) {
+    this.booking = {
+      ...draft,
+      id: newBookingId(),
+      createdAt: Date.now(),
+      profile: this.assistantProfile?.name,
+    };
+    this.bookingStatus = 'review';
+    this.bookingError = '';
+    this.bookingResult = undefined;
+    this.loadBookingSlots(draft.date);
+  }
+
+  private async loadBookingSlots(date: string) {
+    const request = ++this.slotsRequest;
+    this.bookingSlots = [];
+    try {
+      const slots = await this.bookings.checkAvailability(
+        this.booking!.listingId,
+        date,
+      );
+      if (request === this.slotsRequest) this.bookingSlots = slots;
+    } catch (e) {
+      console.error('Error checking availability:', e);
+      if (request === this.slotsRequest) this.bookingError = e.message;
+    }
+  }
+
+  private async submitBooking(details: BookingDetails) {
+    // Same id on every try, so a retry can't book twice.
+    const booking = { ...this.booking!, ...details };
+    this.bookingStatus = 'sending';
+    this.bookingError = '';
+    try {
+      const { reference, queued } = await this.bookings.submit(booking);
+      this.bookingResult = { reference, queued };
+      this.bookingStatus = 'done';
+      this.emit('booking', { booking, reference, queued });
+      const { listingName, date, slot } = booking;
+      this.tellAssistant(
+        `(I confirmed the booking at ${listingName} on ${date} at ${slot}. ` +
+          (queued
+            ? 'It will be sent once I am back online; there is no reference yet.)'
+            : `The reference is ${reference}.)`),
+      );
+    } catch (e) {
+      console.error('Error submitting booking:', e);
+      this.bookingStatus = 'review';
+      if (e instanceof BookingError && e.status === 409) {
+        // Someone else got the slot; offer the ones still free.
+        this.bookingError = this.strings.slotTaken;
+        this.loadBookingSlots(booking.date);
+      } else {
+        this.bookingError = e.message;
+      }
+    }
+  }
+
+  private onQueuedBookingSent({ booking, reference }: BookingSentDetail) {
+    if (this.booking?.id === booking.id) {
+      this.bookingResult = { reference, queued: false };
+    }
+    this.emit('booking-sent', { booking, reference });
+    this.updateStatus(this.strings.bookingSent(booking.listingName, reference));
+    this.tellAssistant(
+      `(My booking at ${booking.listingName} has been sent. ` +
+        `The reference is ${reference}.)`,
+    );
+  }
+
+  private onQueuedBookingRejected({ booking, error }: BookingRejectedDetail) {
+    this.emit('booking-failed', { booking, error });
+    this.updateError(this.strings.bookingFailed(booking.listingName, error));
+    this.tellAssistant(
+      `(My booking at ${booking.listingName} on ${booking.date} at ` +
+        `${booking.slot} could not be made after all: ${error})`,
+    );
+  }
+
+  private cancelBooking() {
+    this.booking = undefined;
+    this.tellAssistant('(I cancelled the booking.)');
+  }
+
+  /** Tell the assistant what happened on screen, for it to answer. */
+  private tellAssistant(text: string) {
+    if (this.connectionState !== 'open') return;
+    this.connection.sendClientContent({ turns: text, turnComplete: true });
+  }
+
+  private closeRecordingPanel() {
+    this.showRecordingPanel = false;
+    this.clearRecordingFiles();
+  }
+
+  private renderLauncher() {
+    return html`<button
+      class="launcher"
+      title=${this.open
+        ? this.strings.closeAssistant
+        : this.strings.openAssistant}
+      aria-label=${this.strings.openAssistant}
+      aria-expanded=${this.open}
+      @click=${() => (this.open = !this.open)}>
+      <svg
+        aria-hidden="true"
+        xmlns="http://www.w3.org/2000/svg"
+        height="32px"
+        viewBox="0 -960 960 960"
+        width="32px"
+        fill="#ffffff">
+        <path
+          d=${this.open
+            ? 'm256-200-56-56 224-224-224-224 56-56 224 224 224-224 56 56-224 224 224 224-56 56-224-224-224 224Z'
+            : 'M240-400h320v-80H240v80Zm0-120h480v-80H240v80Zm0-120h480v-80H240v80ZM80-80v-720q0-33 23.5-56.5T160-880h640q33 0 56.5 23.5T880-800v480q0 33-23.5 56.5T800-240H240L80-80Z'} />
+      </svg>
+    </button>`;
+  }
+
   render() {
     return html`
-      <div>
-        <div class="controls">
+      ${this.position === 'bubble' ? this.renderLauncher() : ''}
+      <div class="panel">
+        <div class="controls" role="group" aria-label=${this.strings.controls}>
+          <button
+            id="settingsButton"
+            title="${this.strings.settings} (,)"
+            aria-label=${this.strings.settings}
+            aria-keyshortcuts=","
+            aria-expanded=${this.showSettings}
+            @click=${() => (this.showSettings = !this.showSettings)}>
+            <svg
+              aria-hidden="true"
+              xmlns="http://www.w3.org/2000/svg"
+              height="32px"
+              viewBox="0 -960 960 960"
+              width="32px"
+              fill="#ffffff">
+              <path
+                d="m370-80-16-128q-13-5-24.5-12T307-235l-119 50L78-375l103-78q-1-7-1-13.5v-27q0-6.5 1-13.5L78-585l110-190 119 50q11-8 23-15t24-12l16-128h220l16 128q13 5 24.5 12t22.5 15l119-50 110 190-103 78q1 7 1 13.5v27q0 6.5-2 13.5l103 78-110 190-118-50q-11 8-23 15t-24 12L590-80H370Zm112-260q58 0 99-41t41-99q0-58-41-99t-99-41q-59 0-99.5 41T342-480q0 58 40.5 99t99.5 41Z" />
+            </svg>
+          </button>
           <button
             id="resetButton"
+            title="${this.strings.reset} (N)"
+            aria-label=${this.strings.reset}
+            aria-keyshortcuts="N"
             @click=${this.reset}
             ?disabled=${this.isRecording}>
             <svg
+              aria-hidden="true"
               xmlns="http://www.w3.org/2000/svg"
               height="40px"
               viewBox="0 -960 960 960"
@@ -321,23 +1688,73 @@ export class GdmLiveAudio extends LitElement {
             </svg>
           </button>
           <button
-            id="startButton"
-            @click=${this.startRecording}
-            ?disabled=${this.isRecording}>
+            id="recordConversationButton"
+            title=${this.isRecordingConversation
+              ? this.strings.stopRecordingConversation
+              : this.strings.recordConversation}
+            aria-label=${this.strings.recordConversation}
+            aria-pressed=${this.isRecordingConversation}
+            @click=${this.toggleConversationRecording}>
             <svg
-              viewBox="0 0 100 100"
-              width="32px"
+              aria-hidden="true"
+              xmlns="http://www.w3.org/2000/svg"
               height="32px"
-              fill="#4a8d3bff"
-              xmlns="http://www.w3.org/2000/svg">
-              <circle cx="50" cy="50" r="50" />
+              viewBox="0 -960 960 960"
+              width="32px"
+              fill=${this.isRecordingConversation ? '#c41010' : '#ffffff'}>
+              <path
+                d="M480-280q83 0 141.5-58.5T680-480q0-83-58.5-141.5T480-680q-83 0-141.5 58.5T280-480q0 83 58.5 141.5T480-280Zm0 200q-83 0-156-31.5T197-197q-54-54-85.5-127T80-480q0-83 31.5-156T197-763q54-54 127-85.5T480-880q83 0 156 31.5T763-763q54 54 85.5 127T880-480q0 83-31.5 156T763-197q-54 54-127 85.5T480-80Zm0-80q134 0 227-93t93-227q0-134-93-227t-227-93q-134 0-227 93t-93 227q0 134 93 227t227 93Z" />
             </svg>
           </button>
+          ${this.settings.inputMode === 'push-to-talk'
+            ? html`<button
+                id="talkButton"
+                title=${this.strings.talk}
+                aria-label=${this.strings.talk}
+                aria-keyshortcuts="Space"
+                aria-pressed=${this.talking}
+                @pointerdown=${this.startTalking}
+                @pointerup=${this.stopTalking}
+                @pointerleave=${this.stopTalking}
+                @pointercancel=${this.stopTalking}
+                ?disabled=${!this.canStart}>
+                <svg
+                  aria-hidden="true"
+                  xmlns="http://www.w3.org/2000/svg"
+                  height="32px"
+                  viewBox="0 -960 960 960"
+                  width="32px"
+                  fill=${this.talking ? '#4a8d3b' : '#ffffff'}>
+                  <path
+                    d="M480-400q-50 0-85-35t-35-85v-240q0-50 35-85t85-35q50 0 85 35t35 85v240q0 50-35 85t-85 35Zm-40 280v-123q-104-14-172-93t-68-184h80q0 83 58.5 141.5T480-320q83 0 141.5-58.5T680-520h80q0 105-68 184t-172 93v123h-80Z" />
+                </svg>
+              </button>`
+            : html`<button
+                id="startButton"
+                title="${this.startLabel} (M)"
+                aria-label=${this.startLabel}
+                aria-keyshortcuts="M"
+                @click=${this.startRecording}
+                ?disabled=${this.isRecording || !this.canStart}>
+                <svg
+                  aria-hidden="true"
+                  viewBox="0 0 100 100"
+                  width="32px"
+                  height="32px"
+                  fill="#4a8d3bff"
+                  xmlns="http://www.w3.org/2000/svg">
+                  <circle cx="50" cy="50" r="50" />
+                </svg>
+              </button>`}
           <button
             id="stopButton"
+            title="${this.strings.stop} (M)"
+            aria-label=${this.strings.stop}
+            aria-keyshortcuts="M Escape"
             @click=${this.stopRecording}
             ?disabled=${!this.isRecording}>
             <svg
+              aria-hidden="true"
               viewBox="0 0 100 100"
               width="32px"
               height="32px"
@@ -348,10 +1765,87 @@ export class GdmLiveAudio extends LitElement {
           </button>
         </div>
 
-        <div id="status">${this.error || this.status}</div>
+        <div id="status">
+          <div role="alert">${this.error}</div>
+          <div role="status">${this.error ? '' : this.status}</div>
+        </div>
+        ${this.settings.captions && this.caption
+          ? html`<div id="captions" aria-hidden="true">
+              <span>${this.caption}</span>
+            </div>`
+          : ''}
+        <gdm-transcript-panel
+          .turns=${this.turns}
+          .canSend=${this.connectionState === 'open'}
+          .locale=${this.locale}
+          @send-text=${(e: CustomEvent<string>) => this.sendText(e.detail)}>
+        </gdm-transcript-panel>
+        ${this.showRecordingPanel
+          ? html`<gdm-recording-panel
+              .files=${this.recordingFiles}
+              .locale=${this.locale}
+              @consent=${this.startConversationRecording}
+              @close=${this.closeRecordingPanel}>
+            </gdm-recording-panel>`
+          : ''}
+        ${this.showSettings
+          ? html`<gdm-settings-panel
+              .profiles=${this.profiles}
+              .profile=${this.assistantProfile}
+              .location=${this.location}
+              .settings=${this.settings}
+              .wakeWordSamples=${this.wakeWord.templates.length}
+              .inputs=${this.devices.inputs}
+              .outputs=${this.devices.outputs}
+              .canChooseOutput=${canChooseOutput()}
+              .inputNode=${this.inputNode}
+              .outputNode=${this.outputNode}
+              .locale=${this.locale}
+              @train-wake-word=${this.trainWakeWord}
+              @settings-change=${(e: CustomEvent<Partial<UserSettings>>) =>
+                this.updateSettings(e.detail)}
+              @location-change=${(e: CustomEvent<string>) =>
+                this.setManualLocation(e.detail)}
+              @profile-change=${(e: CustomEvent<string>) =>
+                this.switchProfile(e.detail)}
+              @close=${() => (this.showSettings = false)}>
+            </gdm-settings-panel>`
+          : ''}
+        ${this.booking
+          ? html`<gdm-booking-card
+              .draft=${this.booking}
+              .slots=${this.bookingSlots}
+              .status=${this.bookingStatus}
+              .error=${this.bookingError}
+              .result=${this.bookingResult}
+              .locale=${this.locale}
+              @date-change=${(e: CustomEvent<string>) =>
+                this.loadBookingSlots(e.detail)}
+              @confirm=${(e: CustomEvent<BookingDetails>) =>
+                this.submitBooking(e.detail)}
+              @cancel=${this.cancelBooking}
+              @close=${() => (this.booking = undefined)}>
+            </gdm-booking-card>`
+          : ''}
+        ${this.settings.diagnostics
+          ? html`<gdm-diagnostics-panel
+              .metrics=${this.metricsSnapshot}
+              .connectionState=${this.connectionState}
+              .canDownloadSessions=${!!this.sessionRecorder}
+              .locale=${this.locale}
+              @download-log=${this.downloadMetrics}
+              @download-sessions=${this.downloadSessions}
+              @close=${() => this.updateSettings({ diagnostics: false })}>
+            </gdm-diagnostics-panel>`
+          : ''}
         <gdm-live-audio-avatar
+          avatar-src=${this.avatarSrc ??
+          this.resolveUrl(this.assistantProfile?.avatarUrl ?? 'avatar.glb')}
+          background=${THEME_BACKGROUND[this.theme] ?? THEME_BACKGROUND.dark}
           .inputNode=${this.inputNode}
-          .outputNode=${this.outputNode}>
+          .outputNode=${this.outputNode}
+          .vad=${this.vad}
+          ?debug=${new URLSearchParams(location.search).has('debug')}>
         </gdm-live-audio-avatar>
       </div>
     `;
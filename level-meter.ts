@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {LitElement, css, html} from 'lit';
+import {customElement, property, query} from 'lit/decorators.js';
+import {Analyser} from './analyser';
+
+/** A horizontal bar showing the live level of `node`. */
+@customElement('gdm-level-meter')
+export class GdmLevelMeter extends LitElement {
+  private analyser?: Analyser;
+  private frame = 0;
+  private _node?: AudioNode;
+
+  @query('.level') private bar!: HTMLDivElement;
+
+  @property({attribute: false})
+  set node(node: AudioNode | undefined) {
+    this._node = node;
+    if (this.isConnected) this.attach();
+  }
+  get node() {
+    return this._node;
+  }
+
+  static styles = css`
+    :host {
+      display: block;
+      height: 6px;
+      border-radius: 3px;
+      background: rgba(255, 255, 255, 0.1);
+      overflow: hidden;
+    }
+
+    .level {
+      height: 100%;
+      width: 0;
+      background: #4a8d3b;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.attach();
+    this.frame = requestAnimationFrame(this.draw);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    cancelAnimationFrame(this.frame);
+    this.analyser?.disconnect();
+    this.analyser = undefined;
+  }
+
+  // Only listen while on the page, so closed panels don't keep analysers.
+  private attach() {
+    this.analyser?.disconnect();
+    this.analyser =
+      this._node && new Analyser(this._node, {fftSize: 256, smoothingTimeConstant: 0.5});
+  }
+
+  private draw = () => {
+    this.frame = requestAnimationFrame(this.draw);
+    if (!this.analyser || !this.bar) return;
+    this.analyser.update();
+    // Speech sits low in the bytes; stretch it so a normal voice reads mid-scale.
+    const level = Math.min(1, this.analyser.band(80, 4000) * 2);
+    this.bar.style.width = `${Math.round(level * 100)}%`;
+  };
+
+  render() {
+    return html`<div class="level"></div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-level-meter': GdmLevelMeter;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Analyser} from './analyser';
+
+/** Oculus / Ready Player Me viseme set; morph targets are `viseme_<name>`. */
+export const VISEMES = [
+  'sil', 'PP', 'FF', 'TH', 'DD', 'kk', 'CH', 'SS', 'nn', 'RR', 'aa', 'E', 'I', 'O', 'U',
+] as const;
+
+export type Viseme = (typeof VISEMES)[number];
+export type VisemeWeights = Record<Viseme, number>;
+
+export interface LipSyncOptions {
+  fftSize?: number;
+  /** Level (0..1) below which the mouth is considered closed. */
+  silenceLevel?: number;
+  /** Seconds to reach a new viseme / to let go of the previous one. */
+  attack?: number;
+  release?: number;
+}
+
+function zeroWeights(): VisemeWeights {
+  return Object.fromEntries(VISEMES.map((v) => [v, 0])) as VisemeWeights;
+}
+
+/** 1 at `center`, falling linearly to 0 at `center ± width`. */
+function tri(x: number, center: number, width: number) {
+  return Math.max(0, 1 - Math.abs(x - center) / width);
+}
+
+function smoothstep(edge0: number, edge1: number, x: number) {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Estimates visemes from the assistant's audio. Formant-region energies pick
+ * the vowel shape, high-band hiss picks fricatives and energy onsets after a
+ * pause pick plosives. Targets are smoothed with a fast attack and a slower
+ * release so neighbouring shapes overlap the way coarticulated speech does.
+ */
+export class LipSync {
+  private analyser: Analyser;
+  private _weights = zeroWeights();
+  private targets = zeroWeights();
+  private peak = 0.5;
+  private silentFor = 1;
+  private _level = 0;
+  private silenceLevel: number;
+  private attack: number;
+  private release: number;
+
+  constructor(node: AudioNode, options: LipSyncOptions = {}) {
+    this.analyser = new Analyser(node, {
+      fftSize: options.fftSize ?? 1024,
+      smoothingTimeConstant: 0.3,
+    });
+    this.silenceLevel = options.silenceLevel ?? 0.18;
+    this.attack = options.attack ?? 0.04;
+    this.release = options.release ?? 0.1;
+  }
+
+  /** Smoothed weights from the last `update`. */
+  get weights(): Readonly<VisemeWeights> {
+    return this._weights;
+  }
+
+  /** Mouth openness (0..1), for rigs without visemes. */
+  get level() {
+    return this._level;
+  }
+
+  update(dt: number): Readonly<VisemeWeights> {
+    const an = this.analyser;
+    an.update();
+    const low = an.band(80, 300);
+    const f1 = an.band(300, 1000);
+    const f2 = an.band(1000, 2500);
+    const f3 = an.band(2500, 4000);
+    const hiss = an.band(4000, 10000);
+    const energy = (low + f1 + f2 + f3) / 4;
+
+    // Slow automatic gain so quiet and loud voices both use the full range.
+    this.peak = Math.max(energy, this.peak * Math.exp(-dt / 3), this.silenceLevel + 0.1);
+    const open = smoothstep(this.silenceLevel, this.peak, energy);
+    this._level = open;
+
+    const t = this.targets;
+    for (const v of VISEMES) t[v] = 0;
+
+    if (energy < this.silenceLevel) {
+      t.sil = 1;
+      this.silentFor += dt;
+    } else {
+      const onset = this.silentFor > 0.08;
+      this.silentFor = 0;
+
+      const eps = 1e-3;
+      const r1 = f1 / (f1 + f2 + eps); // high: open back vowels
+      const bright = f3 / (f1 + eps); // high: spread front vowels
+      const fric = hiss / (energy + eps);
+
+      // Vowels, scaled by how open the mouth is.
+      t.aa = tri(r1, 0.62, 0.15) * open;
+      t.O = tri(r1, 0.55, 0.1) * (1 - smoothstep(0.6, 1, bright)) * open;
+      t.U = tri(r1, 0.5, 0.12) * (1 - open) * 0.8;
+      t.E = tri(r1, 0.45, 0.1) * open;
+      t.I = tri(r1, 0.38, 0.12) * smoothstep(0.7, 1.2, bright) * open;
+      t.RR = tri(r1, 0.5, 0.1) * (1 - smoothstep(0.4, 0.8, bright)) * 0.5;
+      t.nn = smoothstep(0.5, 0.8, low / (energy + eps) - 0.5) * (1 - open);
+
+      // Fricatives.
+      const sibilant = smoothstep(0.8, 1.3, fric);
+      t.SS = sibilant * (1 - smoothstep(0.9, 1.4, bright));
+      t.CH = sibilant * smoothstep(0.9, 1.4, bright);
+      t.FF = smoothstep(0.5, 0.8, fric) * (1 - sibilant) * (1 - open);
+      t.TH = t.FF * 0.5;
+
+      // Plosive release right after a closure.
+      if (onset) {
+        if (f3 > f2 && f3 > low) t.DD = 1;
+        else if (f2 > low) t.kk = 1;
+        else t.PP = 1;
+      }
+    }
+
+    // Keep the combined shape within a plausible range.
+    let sum = 0;
+    for (const v of VISEMES) sum += t[v];
+    if (sum > 1.2) for (const v of VISEMES) t[v] *= 1.2 / sum;
+
+    for (const v of VISEMES) {
+      const tau = t[v] > this._weights[v] ? this.attack : this.release;
+      this._weights[v] += (t[v] - this._weights[v]) * (1 - Math.exp(-dt / tau));
+    }
+    return this._weights;
+  }
+}
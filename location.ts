@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GeoPoint} from './directory';
+
+export type LocationSource = 'browser' | 'manual' | 'profile';
+
+export interface ResolvedLocation {
+  name: string;
+  point?: GeoPoint;
+  source: LocationSource;
+}
+
+/** Turns coordinates into place names and, optionally, names into places. */
+export interface Geocoder {
+  reverse(point: GeoPoint): Promise<string | undefined>;
+  search(query: string): Promise<{name: string; point: GeoPoint} | undefined>;
+}
+
+/**
+ * A way of finding out where the user is. Providers resolve to `undefined`
+ * when they have nothing to offer so callers can fall through to the next.
+ */
+export interface LocationProvider {
+  resolve(): Promise<ResolvedLocation | undefined>;
+}
+
+/** Coordinates are rounded to ~100 m before they leave the device. */
+function coarsen({lat, lon}: GeoPoint): GeoPoint {
+  return {lat: Math.round(lat * 1000) / 1000, lon: Math.round(lon * 1000) / 1000};
+}
+
+export class NominatimGeocoder implements Geocoder {
+  constructor(private baseUrl = 'https://nominatim.openstreetmap.org') {}
+
+  async reverse(point: GeoPoint) {
+    const {lat, lon} = coarsen(point);
+    const res = await fetch(
+      `${this.baseUrl}/reverse?format=json&lat=${lat}&lon=${lon}`,
+    );
+    if (!res.ok) return undefined;
+    const data = await res.json();
+    return data.display_name as string | undefined;
+  }
+
+  async search(query: string) {
+    const res = await fetch(
+      `${this.baseUrl}/search?format=json&limit=1&q=${encodeURIComponent(query)}`,
+    );
+    if (!res.ok) return undefined;
+    const [hit] = await res.json();
+    if (!hit) return undefined;
+    return {
+      name: hit.display_name as string,
+      point: {lat: Number(hit.lat), lon: Number(hit.lon)},
+    };
+  }
+}
+
+export interface Place {
+  name: string;
+  point: GeoPoint;
+  /** Alternative names and pincodes matched by `search`. */
+  aliases?: string[];
+}
+
+const PLACES: Place[] = [
+  {name: 'Pune, Maharashtra', point: {lat: 18.5204, lon: 73.8567}, aliases: ['pune', '411001']},
+  {name: 'Mumbai, Maharashtra', point: {lat: 19.076, lon: 72.8777}, aliases: ['mumbai', 'bombay', '400001']},
+  {name: 'Nagpur, Maharashtra', point: {lat: 21.1458, lon: 79.0882}, aliases: ['nagpur', '440001']},
+  {name: 'New Delhi, Delhi', point: {lat: 28.6139, lon: 77.209}, aliases: ['delhi', 'new delhi', '110001']},
+  {name: 'Bengaluru, Karnataka', point: {lat: 12.9716, lon: 77.5946}, aliases: ['bengaluru', 'bangalore', '560001']},
+  {name: 'Chennai, Tamil Nadu', point: {lat: 13.0827, lon: 80.2707}, aliases: ['chennai', 'madras', '600001']},
+];
+
+/**
+ * Offline geocoder over a fixed list of places: the nearest place for
+ * `reverse`, exact name/alias/pincode match for `search`. For when no
+ * network geocoder is wanted.
+ */
+export class LocalGeocoder implements Geocoder {
+  constructor(private places: Place[] = PLACES) {}
+
+  async reverse(point: GeoPoint) {
+    let best: Place | undefined;
+    let bestD = Infinity;
+    for (const place of this.places) {
+      const d = (place.point.lat - point.lat) ** 2 + (place.point.lon - point.lon) ** 2;
+      if (d < bestD) {
+        best = place;
+        bestD = d;
+      }
+    }
+    return best?.name;
+  }
+
+  async search(query: string) {
+    const q = query.trim().toLowerCase();
+    const place = this.places.find(
+      (p) => p.name.toLowerCase() === q || p.aliases?.includes(q),
+    );
+    return place && {name: place.name, point: place.point};
+  }
+}
+
+/** Rejects with a `LocationTimeoutError` if `promise` takes too long. */
+export function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new LocationTimeoutError(ms)), ms);
+    promise.then(
+      (v) => {
+        clearTimeout(timer);
+        resolve(v);
+      },
+      (e) => {
+        clearTimeout(timer);
+        reject(e);
+      },
+    );
+  });
+}
+
+export class LocationTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Location lookup timed out after ${ms} ms`);
+    this.name = 'LocationTimeoutError';
+  }
+}
+
+/**
+ * `navigator.geolocation`, named through `geocoder`. `timeoutMs` covers the
+ * fix only, so it stays well inside `FallbackLocationProvider`'s budget to
+ * leave time for naming it.
+ */
+export class BrowserLocationProvider implements LocationProvider {
+  constructor(
+    private geocoder: Geocoder,
+    private timeoutMs = 3000,
+  ) {}
+
+  async resolve(): Promise<ResolvedLocation | undefined> {
+    if (!('geolocation' in navigator)) return undefined;
+    const pos = await new Promise<GeolocationPosition>((resolve, reject) => {
+      navigator.geolocation.getCurrentPosition(resolve, reject, {
+        timeout: this.timeoutMs,
+        maximumAge: 10 * 60 * 1000,
+      });
+    });
+    const point = coarsen({lat: pos.coords.latitude, lon: pos.coords.longitude});
+    let name: string | undefined;
+    try {
+      name = await this.geocoder.reverse(point);
+    } catch (e) {
+      console.error('Error fetching location name:', e);
+    }
+    return {name: name ?? `${point.lat.toFixed(3)}, ${point.lon.toFixed(3)}`, point, source: 'browser'};
+  }
+}
+
+/** A city or pincode typed by the user. */
+export class ManualLocationProvider implements LocationProvider {
+  constructor(
+    private query: string,
+    private geocoder?: Geocoder,
+  ) {}
+
+  async resolve(): Promise<ResolvedLocation | undefined> {
+    const query = this.query.trim();
+    if (!query) return undefined;
+    try {
+      const hit = await this.geocoder?.search(query);
+      if (hit) return {...hit, source: 'manual'};
+    } catch (e) {
+      console.error('Error looking up location:', e);
+    }
+    // Still useful to the model without coordinates.
+    return {name: query, source: 'manual'};
+  }
+}
+
+/** Fixed location, e.g. the franchise's home city from its profile. */
+export class StaticLocationProvider implements LocationProvider {
+  constructor(private location?: ResolvedLocation) {}
+
+  async resolve() {
+    return this.location;
+  }
+}
+
+/**
+ * First provider that resolves wins; failures and providers that take longer
+ * than `timeoutMs` fall through to the next.
+ */
+export class FallbackLocationProvider implements LocationProvider {
+  constructor(
+    private providers: LocationProvider[],
+    private timeoutMs = 5000,
+  ) {}
+
+  async resolve() {
+    for (const provider of this.providers) {
+      try {
+        const location = await withTimeout(provider.resolve(), this.timeoutMs);
+        if (location) return location;
+      } catch (e) {
+        console.warn('Location provider failed:', e);
+      }
+    }
+    return undefined;
+  }
+}
+
+/** Remembers the last result in `localStorage` for `maxAgeMs`. */
+export class CachedLocationProvider implements LocationProvider {
+  constructor(
+    private inner: LocationProvider,
+    private key = 'helpyy.location',
+    private maxAgeMs = 30 * 60 * 1000,
+  ) {}
+
+  async resolve() {
+    try {
+      const cached = JSON.parse(localStorage.getItem(this.key) ?? 'null');
+      if (cached && Date.now() - cached.at < this.maxAgeMs) {
+        return cached.location as ResolvedLocation;
+      }
+    } catch {
+      // Corrupt entry; resolve again.
+    }
+    const location = await this.inner.resolve();
+    if (location) {
+      localStorage.setItem(this.key, JSON.stringify({at: Date.now(), location}));
+    }
+    return location;
+  }
+
+  clear() {
+    localStorage.removeItem(this.key);
+  }
+}
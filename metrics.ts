@@ -0,0 +1,404 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type MetricName =
+  | 'connect'
+  | 'response-latency'
+  | 'underrun'
+  | 'interruption'
+  | 'session'
+  | 'error'
+  | 'close';
+
+/** One measurement, as reporters receive it. */
+export interface MetricEvent {
+  name: MetricName;
+  /** Milliseconds, for metrics that measure time. */
+  value?: number;
+  detail?: Record<string, string | number | boolean | undefined>;
+  /** Random id of the session the metric belongs to. */
+  session: string;
+  profile?: string;
+  /** Epoch milliseconds. */
+  at: number;
+}
+
+/** Where metrics go: the console, a local buffer, a collector, … */
+export interface MetricsReporter {
+  report(events: MetricEvent[]): void | Promise<void>;
+  /** Send anything held back, e.g. as the page goes away. */
+  flush?(): void;
+}
+
+export class ConsoleReporter implements MetricsReporter {
+  report(events: MetricEvent[]) {
+    for (const e of events) console.debug('[metrics]', e.name, e.value ?? '', e.detail ?? '');
+  }
+}
+
+const STORE = 'events';
+
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Keeps the latest `maxEvents` metrics in IndexedDB, for support to download. */
+export class IndexedDbReporter implements MetricsReporter {
+  private db?: Promise<IDBDatabase>;
+
+  constructor(
+    private name = 'helpyy-metrics',
+    private maxEvents = 5000,
+  ) {}
+
+  async report(events: MetricEvent[]) {
+    const tx = (await this.open()).transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    for (const e of events) store.add(e);
+    const count = store.count();
+    count.onsuccess = () => {
+      const excess = count.result - this.maxEvents;
+      if (excess <= 0) return;
+      const keys = store.getAllKeys(null, excess);
+      keys.onsuccess = () => store.delete(IDBKeyRange.upperBound(keys.result.at(-1)));
+    };
+    await done(tx);
+  }
+
+  /** Everything buffered, oldest first. */
+  async read(): Promise<MetricEvent[]> {
+    const tx = (await this.open()).transaction(STORE);
+    return request(tx.objectStore(STORE).getAll());
+  }
+
+  async clear() {
+    const tx = (await this.open()).transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    await done(tx);
+  }
+
+  private open() {
+    this.db ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(this.name, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE, {autoIncrement: true});
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return this.db;
+  }
+}
+
+/** POSTs `{events}` to our collector, by beacon so it survives the page closing. */
+export class BeaconReporter implements MetricsReporter {
+  constructor(private url: string) {}
+
+  async report(events: MetricEvent[]) {
+    const body = JSON.stringify({events});
+    // text/plain keeps it a simple CORS request, which beacons have to be.
+    const blob = new Blob([body], {type: 'text/plain'});
+    if (navigator.sendBeacon?.(this.url, blob)) return;
+    // No beacons here, or the batch was too big for one.
+    const res = await fetch(this.url, {method: 'POST', body: blob, keepalive: true});
+    if (!res.ok) throw new Error(`Metrics collector answered ${res.status}`);
+  }
+}
+
+/**
+ * Holds events until `maxBatch` have gathered or `maxWaitMs` has passed,
+ * and sends what it has when the tab is hidden, since it may not come back.
+ */
+export class BatchingReporter implements MetricsReporter {
+  private queue: MetricEvent[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private inner: MetricsReporter,
+    private maxBatch = 20,
+    private maxWaitMs = 15000,
+  ) {
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') this.flush();
+    });
+  }
+
+  report(events: MetricEvent[]) {
+    this.queue.push(...events);
+    if (this.queue.length >= this.maxBatch) this.flush();
+    else this.timer ??= setTimeout(() => this.flush(), this.maxWaitMs);
+  }
+
+  flush() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (!this.queue.length) return;
+    const batch = this.queue;
+    this.queue = [];
+    send(this.inner, batch);
+  }
+}
+
+/**
+ * Passes on the metrics of a `rate` share of sessions. Whole sessions are
+ * kept or dropped, so each kept one is complete.
+ */
+export class SampledReporter implements MetricsReporter {
+  constructor(
+    private inner: MetricsReporter,
+    private rate: number,
+  ) {}
+
+  report(events: MetricEvent[]) {
+    // Session ids are random hex, so their start is a uniform draw.
+    const kept = events.filter((e) => parseInt(e.session.slice(0, 8), 16) / 2 ** 32 < this.rate);
+    if (kept.length) return this.inner.report(kept);
+  }
+
+  flush() {
+    this.inner.flush?.();
+  }
+}
+
+export class MultiReporter implements MetricsReporter {
+  constructor(private reporters: MetricsReporter[]) {}
+
+  report(events: MetricEvent[]) {
+    for (const reporter of this.reporters) send(reporter, events);
+  }
+
+  flush() {
+    for (const reporter of this.reporters) reporter.flush?.();
+  }
+}
+
+/** Report without letting a failing reporter get in the app's way. */
+function send(reporter: MetricsReporter, events: MetricEvent[]) {
+  try {
+    Promise.resolve(reporter.report(events)).catch((e) =>
+      console.warn('Metrics reporter failed:', e),
+    );
+  } catch (e) {
+    console.warn('Metrics reporter failed:', e);
+  }
+}
+
+/**
+ * Everything into `buffer`; the console too with `?debug`; and a sampled
+ * share of sessions in batches to the collector at `METRICS_URL`, if set.
+ */
+export function createMetricsReporter(
+  buffer: MetricsReporter,
+  url = process.env.METRICS_URL,
+  sampleRate = Number(process.env.METRICS_SAMPLE_RATE || 1),
+): MetricsReporter {
+  const reporters: MetricsReporter[] = [new BatchingReporter(buffer, 10, 5000)];
+  if (new URLSearchParams(location.search).has('debug')) {
+    reporters.push(new ConsoleReporter());
+  }
+  if (url) {
+    reporters.push(new BatchingReporter(new SampledReporter(new BeaconReporter(url), sampleRate)));
+  }
+  return new MultiReporter(reporters);
+}
+
+/** The `p`th percentile (0..100) of `values`. */
+export function percentile(values: readonly number[], p: number) {
+  if (!values.length) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+/** What the diagnostics panel shows. */
+export interface MetricsSnapshot {
+  session: string;
+  /** `performance.now()` when the session opened; undefined while it's not. */
+  startedAt?: number;
+  connectMs?: number;
+  /** Replies with audio so far. */
+  replies: number;
+  /**
+   * Times from the end of the user's turn to the first reply audio, for the
+   * last 50 replies at most.
+   */
+  latenciesMs: number[];
+  underruns: number;
+  /** Total silence the underruns caused. */
+  underrunMs: number;
+  interruptions: number;
+  lastError?: string;
+  lastClose?: string;
+}
+
+/** Latencies beyond this aren't a reply to what was said, e.g. background noise. */
+const MAX_LATENCY_MS = 30000;
+const KEPT_LATENCIES = 50;
+/** Audio arriving this late has left a gap someone can hear. */
+const UNDERRUN_MS = 20;
+
+const newSessionId = () =>
+  crypto.randomUUID?.().replace(/-/g, '') ??
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Measures how responsive sessions are, from the calls the app makes as
+ * things happen, and reports each measurement.
+ *
+ * @fires change - `snapshot` changed.
+ */
+export class SessionMetrics extends EventTarget {
+  /** Profile name attached to every event. */
+  profile?: string;
+  private _snapshot: MetricsSnapshot = {
+    session: newSessionId(),
+    replies: 0,
+    latenciesMs: [],
+    underruns: 0,
+    interruptions: 0,
+    underrunMs: 0,
+  };
+  private connectingSince?: number;
+  private userDoneAt?: number;
+  // Between the first audio of a reply and its end.
+  private replying = false;
+
+  constructor(private reporter: MetricsReporter) {
+    super();
+  }
+
+  get snapshot(): Readonly<MetricsSnapshot> {
+    return this._snapshot;
+  }
+
+  connecting() {
+    this.connectingSince ??= performance.now();
+  }
+
+  /** The session is ready; `resumed` if it carries on from a dropped one. */
+  opened(resumed: boolean) {
+    if (!resumed) {
+      this.ended('Replaced');
+      this._snapshot = {
+        session: newSessionId(),
+        startedAt: performance.now(),
+        replies: 0,
+        latenciesMs: [],
+        underruns: 0,
+        interruptions: 0,
+        underrunMs: 0,
+      };
+    }
+    if (this.connectingSince !== undefined) {
+      const ms = performance.now() - this.connectingSince;
+      this.connectingSince = undefined;
+      if (!resumed) this._snapshot.connectMs = ms;
+      this.record('connect', ms, {resumed});
+    }
+    this.changed();
+  }
+
+  /** The connection closed for good, or failed. */
+  closed(reason: string) {
+    this.connectingSince = undefined;
+    this._snapshot.lastClose = reason;
+    this.record('close', undefined, {reason});
+    this.ended(reason);
+    this.changed();
+  }
+
+  /** The user finished speaking, `at` (performance.now()), or sent a message. */
+  userTurnEnded(at = performance.now()) {
+    this.userDoneAt = at;
+  }
+
+  /** A chunk of reply audio arrived `lateMs` after the previous one ran out. */
+  audioReceived(lateMs: number) {
+    if (!this.replying) {
+      this.replying = true;
+      this._snapshot.replies++;
+      if (this.userDoneAt === undefined) return;
+      const ms = performance.now() - this.userDoneAt;
+      this.userDoneAt = undefined;
+      if (ms > MAX_LATENCY_MS) return;
+      const latencies = this._snapshot.latenciesMs;
+      latencies.push(ms);
+      if (latencies.length > KEPT_LATENCIES) latencies.shift();
+      this.record('response-latency', ms);
+    } else if (lateMs > UNDERRUN_MS) {
+      this._snapshot.underruns++;
+      this._snapshot.underrunMs += lateMs;
+      this.record('underrun', lateMs);
+    } else {
+      return;
+    }
+    this.changed();
+  }
+
+  /** The reply finished, or was cut off before any audio. */
+  replyEnded() {
+    this.replying = false;
+  }
+
+  /** A reply was cut off, by the user talking over it (`client`) or the server. */
+  interrupted(by: 'client' | 'server') {
+    // When we stop a reply the server usually confirms it; count it once.
+    if (!this.replying) return;
+    this.replying = false;
+    this._snapshot.interruptions++;
+    this.record('interruption', undefined, {by});
+    this.changed();
+  }
+
+  error(message: string) {
+    this._snapshot.lastError = message;
+    this.record('error', undefined, {message});
+    this.changed();
+  }
+
+  /** Report the session's totals if one is open, e.g. as the page closes. */
+  ended(reason: string) {
+    const {startedAt, replies, latenciesMs, underruns, underrunMs, interruptions} =
+      this._snapshot;
+    if (startedAt === undefined) return;
+    this._snapshot.startedAt = undefined;
+    this.replying = false;
+    // Of the kept latencies only.
+    const median = percentile(latenciesMs, 50);
+    this.record('session', performance.now() - startedAt, {
+      reason,
+      replies,
+      recentMedianLatencyMs: median === undefined ? undefined : Math.round(median),
+      underruns,
+      underrunMs: Math.round(underrunMs),
+      interruptions,
+    });
+    this.reporter.flush?.();
+  }
+
+  private record(name: MetricName, value?: number, detail?: MetricEvent['detail']) {
+    send(this.reporter, [
+      {
+        name,
+        value: value === undefined ? undefined : Math.round(value),
+        detail,
+        session: this._snapshot.session,
+        profile: this.profile,
+        at: Date.now(),
+      },
+    ]);
+  }
+
+  private changed() {
+    this.dispatchEvent(new Event('change'));
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {FunctionCall, LiveServerMessage, Modality} from '@google/genai';
+import type {LiveTransport, LiveTransportParams, LiveTransportSession} from './transport';
+import {encode} from './utils';
+
+export type ClientMessageKind = 'realtimeInput' | 'clientContent' | 'toolResponse';
+
+/** A server message as it goes over the wire, without the SDK's getters. */
+export type ServerMessage = Omit<LiveServerMessage, 'text' | 'data'>;
+
+/** One step of a scripted session, run in order. */
+export type MockStep =
+  | {wait: number}
+  /** Wait until the app sends this kind of message. */
+  | {expect: ClientMessageKind; timeoutMs?: number}
+  /** A finished transcription of what the user said. */
+  | {hear: string}
+  /**
+   * An assistant turn: canned audio (or text) with its transcription.
+   * `complete: false` leaves the turn open, e.g. to interrupt it.
+   */
+  | {say: string; audioMs?: number; complete?: boolean}
+  | {toolCall: FunctionCall[]}
+  | {interrupt: true}
+  | {goAway: string}
+  /** Drop the connection, e.g. `{code: 1011}` for a server error. */
+  | {close: {code?: number; reason?: string}}
+  | {message: ServerMessage};
+
+export interface MockScript {
+  name?: string;
+  steps: MockStep[];
+}
+
+/** Server messages of a real session, as captured by `RecordingTransport`. */
+export interface RecordedSession {
+  model: string;
+  messages: {atMs: number; message: LiveServerMessage}[];
+}
+
+const SAMPLE_RATE = 24000;
+const CHUNK_MS = 100;
+
+/** Replays a recording with its original timing. */
+export function scriptFromRecording(recording: RecordedSession): MockScript {
+  const steps: MockStep[] = [];
+  let last = 0;
+  for (const {atMs, message} of recording.messages) {
+    if (atMs > last) steps.push({wait: atMs - last});
+    steps.push({message});
+    last = atMs;
+  }
+  return {name: `recording of ${recording.model}`, steps};
+}
+
+/**
+ * A voiced hum standing in for speech: a low tone with syllable-rate
+ * amplitude changes, so lip sync and level meters have something to show.
+ * Returns base64 16-bit PCM at 24 kHz.
+ */
+export function cannedSpeech(durationMs: number, offsetMs = 0) {
+  const n = Math.round((SAMPLE_RATE * durationMs) / 1000);
+  const pcm = new Int16Array(n);
+  for (let i = 0; i < n; i++) {
+    const t = i / SAMPLE_RATE + offsetMs / 1000;
+    const syllables = 0.5 + 0.5 * Math.sin(2 * Math.PI * 4 * t);
+    const voice = Math.sin(2 * Math.PI * 180 * t) + 0.4 * Math.sin(2 * Math.PI * 720 * t);
+    pcm[i] = voice * syllables * 0.2 * 32767;
+  }
+  return encode(new Uint8Array(pcm.buffer));
+}
+
+/** Client messages seen by a scripted server, for `expect` steps. */
+export class ClientInbox {
+  private counts: Partial<Record<ClientMessageKind, number>> = {};
+  private waiters: {kind: ClientMessageKind; resolve: () => void}[] = [];
+
+  push(kind: ClientMessageKind) {
+    const waiter = this.waiters.find((w) => w.kind === kind);
+    if (waiter) {
+      this.waiters.splice(this.waiters.indexOf(waiter), 1);
+      waiter.resolve();
+    } else {
+      this.counts[kind] = (this.counts[kind] ?? 0) + 1;
+    }
+  }
+
+  /** Resolves on the next `kind` message, or at once if one is waiting. */
+  next(kind: ClientMessageKind, timeoutMs = 30000) {
+    // Mic audio streams constantly; one pending message is as good as many.
+    if (this.counts[kind]) {
+      this.counts[kind] = 0;
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve, reject) => {
+      const waiter = {kind, resolve: () => (clearTimeout(timer), resolve())};
+      const timer = setTimeout(() => {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        reject(new Error(`Expected ${kind} within ${timeoutMs} ms`));
+      }, timeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+}
+
+/** The server side of a scripted session. */
+export interface ScriptPeer {
+  readonly closed: boolean;
+  inbox: ClientInbox;
+  send(message: ServerMessage): void;
+  close(code: number, reason: string): void;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Play `script` to `peer`. Audio is streamed faster than real time, the way
+ * the Live API does. With `textOnly`, turns arrive as text parts.
+ */
+export async function runScript(
+  script: MockScript,
+  peer: ScriptPeer,
+  {textOnly = false} = {},
+) {
+  let callId = 0;
+  for (const step of script.steps) {
+    if (peer.closed) return;
+    if ('wait' in step) {
+      await sleep(step.wait);
+    } else if ('expect' in step) {
+      try {
+        await peer.inbox.next(step.expect, step.timeoutMs);
+      } catch (e) {
+        peer.close(1011, e.message);
+        return;
+      }
+    } else if ('hear' in step) {
+      peer.send({serverContent: {inputTranscription: {text: step.hear, finished: true}}});
+    } else if ('say' in step) {
+      await say(peer, step, textOnly);
+    } else if ('toolCall' in step) {
+      peer.send({
+        toolCall: {
+          functionCalls: step.toolCall.map((call) => ({id: `mock-${++callId}`, ...call})),
+        },
+      });
+    } else if ('interrupt' in step) {
+      peer.send({serverContent: {interrupted: true}});
+    } else if ('goAway' in step) {
+      peer.send({goAway: {timeLeft: step.goAway}});
+    } else if ('close' in step) {
+      peer.close(step.close.code ?? 1000, step.close.reason ?? 'Mock session ended');
+      return;
+    } else {
+      peer.send(step.message);
+    }
+  }
+}
+
+async function say(
+  peer: ScriptPeer,
+  {say: text, audioMs, complete = true}: Extract<MockStep, {say: string}>,
+  textOnly: boolean,
+) {
+  if (textOnly) {
+    peer.send({serverContent: {modelTurn: {role: 'model', parts: [{text}]}}});
+    if (complete) peer.send({serverContent: {turnComplete: true}});
+    return;
+  }
+  const words = text.split(' ');
+  const duration = audioMs ?? words.length * 300;
+  const chunks = Math.max(1, Math.ceil(duration / CHUNK_MS));
+  for (let i = 0; i < chunks; i++) {
+    if (peer.closed) return;
+    const from = Math.floor((i * words.length) / chunks);
+    const to = Math.floor(((i + 1) * words.length) / chunks);
+    peer.send({
+      serverContent: {
+        modelTurn: {
+          role: 'model',
+          parts: [
+            {
+              inlineData: {
+                data: cannedSpeech(CHUNK_MS, i * CHUNK_MS),
+                mimeType: `audio/pcm;rate=${SAMPLE_RATE}`,
+              },
+            },
+          ],
+        },
+        outputTranscription:
+          to > from ? {text: words.slice(from, to).join(' ') + ' '} : undefined,
+      },
+    });
+    await sleep(CHUNK_MS / 4);
+  }
+  if (complete) {
+    peer.send({serverContent: {outputTranscription: {finished: true}, turnComplete: true}});
+  }
+}
+
+/**
+ * A short offline conversation: a greeting, a directory lookup, and an
+ * answer the user interrupts.
+ */
+export const DEMO_SCRIPT: MockScript = {
+  name: 'demo',
+  steps: [
+    {wait: 300},
+    {say: 'Hello! This is a mock session, no network needed.'},
+    {expect: 'clientContent', timeoutMs: 600000},
+    {toolCall: [{name: 'searchListings', args: {category: 'doctors'}}]},
+    {expect: 'toolResponse'},
+    {say: 'I found a few doctors near you. The closest one is listed first.'},
+    {expect: 'clientContent', timeoutMs: 600000},
+    {
+      say: 'This is a long answer that you will not hear the end of, because it gets interrupted.',
+      audioMs: 6000,
+      complete: false,
+    },
+    {wait: 1500},
+    {hear: 'Stop, thanks.'},
+    {interrupt: true},
+    {message: {serverContent: {turnComplete: true}}},
+    {say: 'Sure, stopping there.'},
+  ],
+};
+
+/**
+ * In-page stand-in for the Live API that plays a `MockScript` on every
+ * connect. `sent` records what the app sent, for assertions.
+ */
+export class MockTransport implements LiveTransport {
+  readonly sent: {kind: ClientMessageKind; params: unknown}[] = [];
+
+  constructor(
+    private script: MockScript | ((params: LiveTransportParams) => MockScript),
+    private options: {connectDelayMs?: number; failConnect?: string} = {},
+  ) {}
+
+  async connect(params: LiveTransportParams): Promise<LiveTransportSession> {
+    await sleep(this.options.connectDelayMs ?? 50);
+    if (this.options.failConnect) throw new Error(this.options.failConnect);
+
+    const {callbacks} = params;
+    const inbox = new ClientInbox();
+    const peer = {
+      closed: false,
+      inbox,
+      send: (message: ServerMessage) => {
+        if (!peer.closed) callbacks.onmessage(Object.assign(new LiveServerMessage(), message));
+      },
+      close: (code: number, reason: string) => {
+        if (peer.closed) return;
+        peer.closed = true;
+        callbacks.onclose?.({code, reason} as CloseEvent);
+      },
+    };
+    const record = (kind: ClientMessageKind) => (p: unknown) => {
+      if (peer.closed) return;
+      this.sent.push({kind, params: p});
+      inbox.push(kind);
+    };
+
+    callbacks.onopen?.();
+    const script = typeof this.script === 'function' ? this.script(params) : this.script;
+    const textOnly = params.config?.responseModalities?.includes(Modality.TEXT) ?? false;
+    // Start after the caller has the session in hand.
+    setTimeout(() => runScript(script, peer, {textOnly}));
+
+    return {
+      sendRealtimeInput: record('realtimeInput'),
+      sendClientContent: record('clientContent'),
+      sendToolResponse: record('toolResponse'),
+      close: () => peer.close(1000, 'Closed by client'),
+    };
+  }
+}
+
+/** Passes through to `inner`, keeping each session's server messages for replay. */
+export class RecordingTransport implements LiveTransport {
+  readonly sessions: RecordedSession[] = [];
+
+  constructor(private inner: LiveTransport) {}
+
+  connect(params: LiveTransportParams) {
+    const recording: RecordedSession = {model: params.model, messages: []};
+    const start = performance.now();
+    this.sessions.push(recording);
+    return this.inner.connect({
+      ...params,
+      callbacks: {
+        ...params.callbacks,
+        onmessage: (message) => {
+          recording.messages.push({atMs: Math.round(performance.now() - start), message});
+          params.callbacks.onmessage(message);
+        },
+      },
+    });
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {MockScript, MockTransport} from './mock-transport';
+import {ReplyAvatar, ReplyPlayer} from './playback';
+import type {LiveTransportSession} from './transport';
+
+/** Just enough of an AudioBufferSourceNode to follow what was scheduled. */
+class FakeSource {
+  buffer?: {duration: number};
+  startAt = NaN;
+  stopped = false;
+  private ended = false;
+  private listeners: (() => void)[] = [];
+
+  connect() {}
+
+  addEventListener(_type: 'ended', listener: () => void) {
+    this.listeners.push(listener);
+  }
+
+  start(when: number) {
+    this.startAt = when;
+  }
+
+  stop() {
+    this.stopped = true;
+    // Browsers fire `ended` for stopped sources too, a little later.
+    queueMicrotask(() => this.end());
+  }
+
+  end() {
+    if (this.ended) return;
+    this.ended = true;
+    for (const listener of this.listeners) listener();
+  }
+}
+
+/** An audio clock the test moves by hand. */
+class FakeAudioContext {
+  currentTime = 0;
+  readonly sources: FakeSource[] = [];
+
+  createBuffer(_channels: number, frames: number, sampleRate: number) {
+    const data = new Float32Array(frames);
+    return {duration: frames / sampleRate, getChannelData: () => data};
+  }
+
+  createBufferSource() {
+    const source = new FakeSource();
+    this.sources.push(source);
+    return source;
+  }
+
+  /** Move the clock on by `seconds`, ending whatever has played out. */
+  advance(seconds: number) {
+    this.currentTime += seconds;
+    for (const s of this.sources) {
+      if (!s.stopped && s.startAt + s.buffer!.duration <= this.currentTime + 1e-9) s.end();
+    }
+  }
+}
+
+class FakeAvatar implements ReplyAvatar {
+  mode = 'idle';
+  /** Each mode it went into, in order. */
+  readonly modes: string[] = [];
+
+  private set(mode: string) {
+    this.mode = mode;
+    if (this.modes.at(-1) !== mode) this.modes.push(mode);
+  }
+
+  startListening() {
+    this.set('listening');
+  }
+
+  startThinking() {
+    this.set('thinking');
+  }
+
+  startSpeaking() {
+    this.set('speak');
+  }
+
+  rest() {
+    this.set('idle');
+  }
+}
+
+async function until(condition: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+/** Play `script` into a `ReplyPlayer`; `during` runs while it plays. */
+async function run(
+  steps: MockScript['steps'],
+  during?: (session: LiveTransportSession, player: ReplyPlayer, context: FakeAudioContext) => Promise<void>,
+) {
+  const context = new FakeAudioContext();
+  const avatar = new FakeAvatar();
+  const player = new ReplyPlayer(
+    context as unknown as BaseAudioContext,
+    {} as AudioNode,
+    () => avatar,
+  );
+  let closed!: () => void;
+  const done = new Promise<void>((resolve) => (closed = resolve));
+  const transport = new MockTransport({steps: [...steps, {close: {}}]}, {connectDelayMs: 0});
+  const session = await transport.connect({
+    model: 'mock',
+    callbacks: {onmessage: (message) => player.handle(message), onclose: () => closed()},
+  });
+  await during?.(session, player, context);
+  await done;
+  // Decoding is async; let the last chunk get scheduled.
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  return {context, avatar, player, transport};
+}
+
+test('queues reply audio back to back and rests once it has played out', async () => {
+  const {context, avatar, player} = await run([{say: 'one two three four', audioMs: 400}]);
+
+  assert.deepEqual(
+    context.sources.map((s) => Math.round(s.startAt * 10) / 10),
+    [0, 0.1, 0.2, 0.3],
+  );
+  assert.equal(avatar.mode, 'speak');
+  context.advance(0.35);
+  assert.equal(avatar.mode, 'speak');
+  context.advance(0.1);
+  assert.equal(avatar.mode, 'idle');
+  assert.equal(player.playing, false);
+});
+
+test('a server interruption stops the reply, and the next turn plays', async () => {
+  const {context, avatar, player} = await run([
+    {say: 'a long answer that gets cut off', audioMs: 600, complete: false},
+    {interrupt: true},
+    {message: {serverContent: {turnComplete: true}}},
+    {say: 'sure', audioMs: 100},
+  ]);
+
+  const [next, ...cut] = [context.sources.at(-1)!, ...context.sources.slice(0, -1)];
+  assert.equal(cut.length, 6);
+  assert.ok(cut.every((s) => s.stopped));
+  // The new reply starts now, not after what was dropped.
+  assert.equal(next.startAt, 0);
+  assert.equal(next.stopped, false);
+  assert.deepEqual(avatar.modes, ['speak', 'idle', 'speak']);
+  assert.equal(player.playing, true);
+});
+
+test('a client barge-in drops the rest of the reply until the turn ends', async () => {
+  const {context, avatar, transport} = await run(
+    [
+      {say: 'first part', audioMs: 200, complete: false},
+      {expect: 'clientContent'},
+      {say: 'rest of the same reply', audioMs: 300, complete: false},
+      {message: {serverContent: {turnComplete: true}}},
+      {say: 'next reply', audioMs: 100},
+    ],
+    async (session, player, ctx) => {
+      await until(() => ctx.sources.length === 2);
+      assert.equal(player.interrupt(), true);
+      assert.equal(player.bargedIn, true);
+      session.sendClientContent({turns: 'Stop', turnComplete: true});
+    },
+  );
+
+  assert.equal(context.sources.length, 3);
+  assert.ok(context.sources.slice(0, 2).every((s) => s.stopped));
+  assert.equal(context.sources[2].stopped, false);
+  assert.deepEqual(avatar.modes, ['speak', 'listening', 'speak']);
+  assert.deepEqual(
+    transport.sent.map((m) => m.kind),
+    ['clientContent'],
+  );
+});
+
+test('the avatar thinks after the user finishes and speaks the reply', async () => {
+  const {context, avatar} = await run([{hear: 'Any dentists near me?'}, {say: 'Yes', audioMs: 100}]);
+
+  context.advance(0.2);
+  assert.deepEqual(avatar.modes, ['thinking', 'speak', 'idle']);
+});
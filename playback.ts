@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {LiveServerMessage} from '@google/genai';
+import {decode, decodeAudioData} from './utils';
+
+/** The avatar modes a reply moves through; see `GdmLiveAudioAvatar`. */
+export interface ReplyAvatar {
+  readonly mode: string;
+  startListening(): void;
+  startThinking(): void;
+  startSpeaking(): void;
+  rest(): void;
+}
+
+export interface ReplyPlayerOptions {
+  /** Rate of the Live API's reply audio. */
+  sampleRate?: number;
+  /** Called per chunk with how late (ms) it came after the queued audio ran out. */
+  onAudio?: (lateMs: number) => void;
+}
+
+/**
+ * Plays the assistant's replies: queues their audio back to back, cuts it
+ * off when the server or the user interrupts, and keeps the avatar's mode
+ * in step with the turn.
+ */
+export class ReplyPlayer {
+  private nextStartTime = 0;
+  private sources = new Set<AudioBufferSourceNode>();
+  // Set when we cut the assistant off ourselves: the rest of its reply is
+  // dropped until the server ends the turn.
+  private _bargedIn = false;
+
+  constructor(
+    private context: BaseAudioContext,
+    private output: AudioNode,
+    private avatar: () => ReplyAvatar | undefined,
+    private options: ReplyPlayerOptions = {},
+  ) {}
+
+  /** Whether reply audio is playing or queued. */
+  get playing() {
+    return this.sources.size > 0;
+  }
+
+  get bargedIn() {
+    return this._bargedIn;
+  }
+
+  /** The playback side of a server message. */
+  async handle(message: LiveServerMessage) {
+    const content = message.serverContent;
+    if (!content) return;
+
+    const mode = this.avatar()?.mode;
+    if (content.inputTranscription?.finished && (mode === 'idle' || mode === 'listening')) {
+      this.avatar()?.startThinking();
+    }
+
+    const audio = content.modelTurn?.parts?.[0]?.inlineData;
+    if (audio?.data && !this._bargedIn) await this.play(audio.data);
+
+    if (content.interrupted) {
+      this.stop();
+      // Stop talking; a dance or whisper carries on.
+      this.avatar()?.rest();
+    }
+    if (content.interrupted || content.turnComplete) this._bargedIn = false;
+  }
+
+  /**
+   * Cut the reply off ourselves, e.g. when the user talks over it. Returns
+   * false if nothing was playing.
+   */
+  interrupt() {
+    if (!this.playing) return false;
+    this.stop();
+    this._bargedIn = true;
+    this.avatar()?.startListening();
+    return true;
+  }
+
+  /** Drop everything playing and queued. */
+  stop() {
+    for (const source of this.sources) source.stop();
+    this.sources.clear();
+    this.nextStartTime = 0;
+  }
+
+  private async play(data: string) {
+    this.avatar()?.startSpeaking();
+    this.options.onAudio?.((this.context.currentTime - this.nextStartTime) * 1000);
+    this.nextStartTime = Math.max(this.nextStartTime, this.context.currentTime);
+
+    const buffer = await decodeAudioData(
+      decode(data),
+      this.context,
+      this.options.sampleRate ?? 24000,
+      1,
+    );
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.output);
+    source.addEventListener('ended', () => {
+      if (!this.sources.delete(source)) return; // stopped
+      // Back to idle, or to dancing, once the reply has played out.
+      if (!this.sources.size) this.avatar()?.rest();
+    });
+    source.start(this.nextStartTime);
+    this.nextStartTime += buffer.duration;
+    this.sources.add(source);
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Everything that differs between HelpOne franchises. Profiles live as JSON
+ * under `public/profiles/<name>.json`; `public/profiles/index.json` lists
+ * the ones offered in the settings panel.
+ */
+export interface AssistantProfile {
+  name: string;
+  label: string;
+  model: string;
+  voice: string;
+  /** BCP-47 code for the spoken language, e.g. `en-IN`. */
+  language: string;
+  /**
+   * System instruction template. `{{dateTime}}` and `{{location}}` are filled
+   * in at connect time; anything else comes from `variables`.
+   */
+  persona: string;
+  variables?: Record<string, string>;
+  /** Names of the functions the model may call. */
+  tools: string[];
+  /** Relative to the app's base URL, like the profiles themselves. */
+  avatarUrl: string;
+  /** Used when the user's location can't be determined. */
+  defaultLocation?: {name: string; lat?: number; lon?: number};
+}
+
+export interface ProfileSummary {
+  name: string;
+  label: string;
+}
+
+export const DEFAULT_PROFILE = 'helpone';
+
+/** Prebuilt Live API voices. */
+export const VOICES = [
+  'Puck',
+  'Charon',
+  'Kore',
+  'Fenrir',
+  'Aoede',
+  'Leda',
+  'Orus',
+  'Zephyr',
+];
+
+export class ProfileError extends Error {
+  constructor(message: string, readonly problems: string[] = []) {
+    super(problems.length ? `${message}: ${problems.join('; ')}` : message);
+    this.name = 'ProfileError';
+  }
+}
+
+/** Check a parsed JSON value against the profile schema. */
+export function validateProfile(value: unknown): AssistantProfile {
+  const problems: string[] = [];
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ProfileError('Invalid profile', ['not an object']);
+  }
+  const p = value as Record<string, unknown>;
+
+  for (const key of ['name', 'label', 'model', 'voice', 'language', 'persona', 'avatarUrl']) {
+    if (typeof p[key] !== 'string' || !(p[key] as string).trim()) {
+      problems.push(`"${key}" must be a non-empty string`);
+    }
+  }
+  if (typeof p.name === 'string' && !/^[a-z0-9-]+$/.test(p.name)) {
+    problems.push('"name" may only contain a-z, 0-9 and "-"');
+  }
+  if (typeof p.voice === 'string' && !VOICES.includes(p.voice)) {
+    problems.push(`unknown voice "${p.voice}"`);
+  }
+  if (typeof p.language === 'string' && !/^[a-z]{2,3}(-[A-Z]{2})?$/.test(p.language)) {
+    problems.push(`"language" must look like "en" or "en-IN"`);
+  }
+  if (!Array.isArray(p.tools) || p.tools.some((t) => typeof t !== 'string')) {
+    problems.push('"tools" must be an array of function names');
+  }
+  if (p.variables !== undefined) {
+    const vars = p.variables;
+    if (
+      typeof vars !== 'object' ||
+      vars === null ||
+      Object.values(vars).some((v) => typeof v !== 'string')
+    ) {
+      problems.push('"variables" must map names to strings');
+    }
+  }
+
+  if (p.defaultLocation !== undefined) {
+    const loc = p.defaultLocation as Record<string, unknown>;
+    if (typeof loc !== 'object' || loc === null || typeof loc.name !== 'string') {
+      problems.push('"defaultLocation" needs a "name"');
+    } else if (
+      (loc.lat !== undefined || loc.lon !== undefined) &&
+      (typeof loc.lat !== 'number' || typeof loc.lon !== 'number')
+    ) {
+      problems.push('"defaultLocation" needs both "lat" and "lon" as numbers');
+    }
+  }
+
+  if (problems.length) {
+    throw new ProfileError(`Invalid profile "${p.name ?? '?'}"`, problems);
+  }
+  return p as unknown as AssistantProfile;
+}
+
+/** Replace `{{name}}` placeholders; unknown names are left as they are. */
+export function renderTemplate(
+  template: string,
+  vars: Record<string, string>,
+) {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) =>
+    key in vars ? vars[key] : match,
+  );
+}
+
+/** The persona with the profile's variables plus the runtime ones applied. */
+export function renderPersona(
+  profile: AssistantProfile,
+  runtime: Record<string, string>,
+) {
+  return renderTemplate(profile.persona, {...profile.variables, ...runtime});
+}
+
+export async function loadProfile(
+  name: string,
+  baseUrl = '/profiles',
+): Promise<AssistantProfile> {
+  if (!/^[a-z0-9-]+$/.test(name)) {
+    throw new ProfileError(`Invalid profile name "${name}"`);
+  }
+  const res = await fetch(`${baseUrl}/${name}.json`);
+  if (!res.ok) {
+    throw new ProfileError(`Could not load profile "${name}" (${res.status})`);
+  }
+  const profile = validateProfile(await res.json());
+  if (profile.name !== name) {
+    throw new ProfileError(`Profile file "${name}" declares name "${profile.name}"`);
+  }
+  return profile;
+}
+
+export async function listProfiles(
+  baseUrl = '/profiles',
+): Promise<ProfileSummary[]> {
+  const res = await fetch(`${baseUrl}/index.json`);
+  if (!res.ok) return [];
+  return (await res.json()).profiles ?? [];
+}
+
+/** `?profile=` wins over the element attribute, then the default. */
+export function profileNameFor(attribute?: string | null) {
+  const param = new URLSearchParams(location.search).get('profile');
+  return param || attribute || DEFAULT_PROFILE;
+}
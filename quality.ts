@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type QualityLevel = 'high' | 'medium' | 'low';
+
+/** What the avatar renders with at one quality level. */
+export interface QualityTier {
+  name: QualityLevel;
+  bloom: boolean;
+  /** Cap on the device pixel ratio. */
+  maxPixelRatio: number;
+  /** MSAA samples of the post-processing targets; 0 turns antialiasing off. */
+  samples: number;
+}
+
+/** Best first; the controller steps down this list when frames run late. */
+export const QUALITY_TIERS: QualityTier[] = [
+  {name: 'high', bloom: true, maxPixelRatio: 2, samples: 4},
+  {name: 'medium', bloom: true, maxPixelRatio: 1.5, samples: 0},
+  {name: 'low', bloom: false, maxPixelRatio: 1, samples: 0},
+];
+
+export function isQualityLevel(value: unknown): value is QualityLevel {
+  return QUALITY_TIERS.some((t) => t.name === value);
+}
+
+/** Lets animation frames through at no more than `fps`. */
+export class FrameGovernor {
+  private last = -Infinity;
+  private _interval = Infinity;
+
+  constructor(public fps = 60) {}
+
+  /** Milliseconds between the last two frames let through. */
+  get interval() {
+    return this._interval;
+  }
+
+  /** Whether to draw the frame with this `requestAnimationFrame` timestamp. */
+  ready(now: number) {
+    // A little slack, or a 60 Hz display would be held to every other frame.
+    if (now - this.last < 1000 / this.fps - 2) return false;
+    this._interval = now - this.last;
+    this.last = now;
+    return true;
+  }
+
+  /** Start over, e.g. after a pause, so the gap doesn't count as a frame. */
+  reset() {
+    this.last = -Infinity;
+    this._interval = Infinity;
+  }
+}
+
+export interface QualityOptions {
+  /** Frames may take this many times the budget before they count as late. */
+  slack?: number;
+  /** Late this long (ms) drops a tier. */
+  downgradeAfterMs?: number;
+  /** Within budget this long (ms) tries the tier above again. */
+  upgradeAfterMs?: number;
+}
+
+const DEFAULTS: Required<QualityOptions> = {
+  slack: 1.25,
+  downgradeAfterMs: 2000,
+  upgradeAfterMs: 10000,
+};
+
+// Gaps longer than this are hitches or pauses, not the render cost.
+const MAX_FRAME_MS = 250;
+const MAX_UPGRADE_AFTER_MS = 5 * 60 * 1000;
+
+/**
+ * Picks a quality tier from how long frames actually take. Sustained late
+ * frames drop a tier; a long stretch within budget tries the one above,
+ * waiting twice as long each time such a try has to be undone.
+ *
+ * @fires change - `tier` changed.
+ */
+export class QualityController extends EventTarget {
+  private options: Required<QualityOptions>;
+  private index = 0;
+  private avgMs = 0;
+  private lateMs = 0;
+  private fineMs = 0;
+  private upgradeAfterMs: number;
+  private upgraded = false;
+  private _pinned?: QualityLevel;
+
+  constructor(options: QualityOptions = {}) {
+    super();
+    this.options = {...DEFAULTS, ...options};
+    this.upgradeAfterMs = this.options.upgradeAfterMs;
+  }
+
+  get tier() {
+    return QUALITY_TIERS[this.index];
+  }
+
+  /** Frames per second, averaged over the last few dozen frames. */
+  get fps() {
+    return this.avgMs ? 1000 / this.avgMs : 0;
+  }
+
+  /** A fixed level, or undefined to adapt. */
+  get pinned() {
+    return this._pinned;
+  }
+
+  set pinned(level: QualityLevel | undefined) {
+    this._pinned = level;
+    if (level) this.setIndex(QUALITY_TIERS.findIndex((t) => t.name === level));
+  }
+
+  /** Record one frame that took `frameMs` against a budget of `budgetMs`. */
+  sample(frameMs: number, budgetMs: number) {
+    if (frameMs > MAX_FRAME_MS) return;
+    this.avgMs = this.avgMs ? this.avgMs * 0.9 + frameMs * 0.1 : frameMs;
+    if (this._pinned) return;
+
+    if (this.avgMs > budgetMs * this.options.slack) {
+      this.fineMs = 0;
+      this.lateMs += frameMs;
+      if (this.lateMs >= this.options.downgradeAfterMs && this.index < QUALITY_TIERS.length - 1) {
+        if (this.upgraded) {
+          this.upgradeAfterMs = Math.min(this.upgradeAfterMs * 2, MAX_UPGRADE_AFTER_MS);
+        }
+        this.upgraded = false;
+        this.setIndex(this.index + 1);
+      }
+    } else {
+      this.lateMs = 0;
+      this.fineMs += frameMs;
+      if (this.fineMs >= this.upgradeAfterMs) {
+        // Held up this long, so a later slowdown isn't the last upgrade's fault.
+        this.fineMs = 0;
+        this.upgraded = this.index > 0;
+        if (this.upgraded) this.setIndex(this.index - 1);
+      }
+    }
+  }
+
+  /** Forget the running average, e.g. after a pause or a new frame budget. */
+  reset() {
+    this.avgMs = this.lateMs = this.fineMs = 0;
+  }
+
+  private setIndex(index: number) {
+    if (index < 0 || index === this.index) return;
+    this.index = index;
+    this.reset();
+    this.dispatchEvent(new Event('change'));
+  }
+}
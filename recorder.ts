@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {AudioCapture} from './capture';
+import {Speaker, Turn} from './conversation';
+import {floatToInt16, interleave} from './utils';
+
+export interface RecorderOptions {
+  /** Rate both tracks are resampled to. */
+  sampleRate?: number;
+  /** Also record a mixed WebM/Opus file, where the browser supports it. */
+  webm?: boolean;
+}
+
+/** A finished recording; the tracks are aligned and equally long. */
+export interface Recording {
+  startedAt: Date;
+  endedAt: Date;
+  sampleRate: number;
+  user: Float32Array;
+  assistant: Float32Array;
+  webm?: Blob;
+}
+
+export interface TranscriptTurn {
+  id: number;
+  speaker: Speaker;
+  text: string;
+  /** Offsets from the start of the recording. */
+  startMs: number;
+  endMs?: number;
+  interrupted: boolean;
+}
+
+export interface RecordingTranscript {
+  startedAt: string;
+  durationMs: number;
+  turns: TranscriptTurn[];
+  /** Where the user cut the assistant off. */
+  interruptions: {turnId: number; atMs: number}[];
+}
+
+const WEBM_TYPE = 'audio/webm;codecs=opus';
+
+function concat(chunks: Float32Array[], length: number) {
+  const out = new Float32Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk.subarray(0, length - offset), offset);
+    offset += chunk.length;
+    if (offset >= length) break;
+  }
+  return out;
+}
+
+/**
+ * Records both sides of a conversation by tapping the user's and the
+ * assistant's audio graphs, which may live in different AudioContexts.
+ */
+export class ConversationRecorder {
+  private captures: AudioCapture[] = [];
+  private chunks: Record<Speaker, Float32Array[]> = {user: [], assistant: []};
+  private accepting = false;
+  private startedAt?: Date;
+  private sampleRate: number;
+  private webm?: {recorder: MediaRecorder; chunks: Blob[]; disconnect: () => void};
+
+  constructor(
+    private nodes: Record<Speaker, AudioNode>,
+    private options: RecorderOptions = {},
+  ) {
+    this.sampleRate = options.sampleRate ?? 24000;
+  }
+
+  get recording() {
+    return this.startedAt !== undefined;
+  }
+
+  async start() {
+    if (this.recording) return;
+    this.chunks = {user: [], assistant: []};
+    // Set early so a second call while the worklets load is a no-op.
+    this.startedAt = new Date();
+
+    const speakers: Speaker[] = ['user', 'assistant'];
+    this.captures = speakers.map(
+      (speaker) =>
+        new AudioCapture(
+          this.nodes[speaker].context as AudioContext,
+          (pcm) => {
+            if (this.accepting) this.chunks[speaker].push(pcm);
+          },
+          {targetRate: this.sampleRate, frameMs: 100, fillSilence: true},
+        ),
+    );
+    try {
+      await Promise.all(this.captures.map((c, i) => c.start(this.nodes[speakers[i]])));
+    } catch (e) {
+      for (const capture of this.captures) capture.stop();
+      this.captures = [];
+      this.startedAt = undefined;
+      throw e;
+    }
+    if (this.options.webm) this.startWebm();
+    // Both worklets are running; start both tracks at the same moment.
+    this.startedAt = new Date();
+    this.accepting = true;
+  }
+
+  async stop(): Promise<Recording> {
+    if (!this.recording) throw new Error('Not recording');
+    this.accepting = false;
+    for (const capture of this.captures) capture.stop();
+    this.captures = [];
+    const webm = await this.stopWebm();
+
+    const length = Math.max(
+      ...Object.values(this.chunks).map((c) => c.reduce((n, f) => n + f.length, 0)),
+    );
+    const recording: Recording = {
+      startedAt: this.startedAt!,
+      endedAt: new Date(),
+      sampleRate: this.sampleRate,
+      user: concat(this.chunks.user, length),
+      assistant: concat(this.chunks.assistant, length),
+      webm,
+    };
+    this.chunks = {user: [], assistant: []};
+    this.startedAt = undefined;
+    return recording;
+  }
+
+  /** Mix both sides into a MediaStream in the assistant's context and encode it. */
+  private startWebm() {
+    if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported(WEBM_TYPE)) {
+      console.warn('WebM/Opus recording is not supported; recording WAV only.');
+      return;
+    }
+    const {user, assistant} = this.nodes;
+    const out = assistant.context as AudioContext;
+    const mix = out.createMediaStreamDestination();
+    assistant.connect(mix);
+
+    let bridge: AudioNode = user;
+    let userTap: MediaStreamAudioDestinationNode | undefined;
+    if (user.context !== out) {
+      userTap = (user.context as AudioContext).createMediaStreamDestination();
+      user.connect(userTap);
+      bridge = out.createMediaStreamSource(userTap.stream);
+    }
+    bridge.connect(mix);
+
+    const chunks: Blob[] = [];
+    const recorder = new MediaRecorder(mix.stream, {mimeType: WEBM_TYPE});
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.start(1000);
+    this.webm = {
+      recorder,
+      chunks,
+      disconnect: () => {
+        assistant.disconnect(mix);
+        bridge.disconnect(mix);
+        if (userTap) user.disconnect(userTap);
+      },
+    };
+  }
+
+  private async stopWebm() {
+    const webm = this.webm;
+    if (!webm) return undefined;
+    this.webm = undefined;
+    await new Promise((resolve) => {
+      webm.recorder.onstop = resolve;
+      webm.recorder.stop();
+    });
+    webm.disconnect();
+    return new Blob(webm.chunks, {type: WEBM_TYPE});
+  }
+}
+
+/** 16-bit PCM WAV with one channel per entry of `channels`. */
+export function encodeWav(channels: Float32Array[], sampleRate: number) {
+  const samples = channels.length === 1 ? channels[0] : interleave(channels);
+  const blockAlign = channels.length * 2;
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const text = (offset: number, s: string) => {
+    for (let i = 0; i < s.length; i++) view.setUint8(offset + i, s.charCodeAt(i));
+  };
+  text(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  text(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  floatToInt16(samples, new Int16Array(buffer, 44), {dither: true});
+  return new Blob([buffer], {type: 'audio/wav'});
+}
+
+/**
+ * WAV of a recording: `stereo` keeps the user on the left and the assistant
+ * on the right for review; `mixed` folds both into one channel.
+ */
+export function recordingToWav(recording: Recording, layout: 'stereo' | 'mixed' = 'stereo') {
+  const {user, assistant, sampleRate} = recording;
+  if (layout === 'stereo') return encodeWav([user, assistant], sampleRate);
+  const mixed = new Float32Array(user.length);
+  for (let i = 0; i < mixed.length; i++) mixed[i] = (user[i] + assistant[i]) * 0.5;
+  return encodeWav([mixed], sampleRate);
+}
+
+/** The turns spoken during `recording`, timed against its start. */
+export function recordingTranscript(
+  recording: Recording,
+  turns: readonly Turn[],
+): RecordingTranscript {
+  const start = recording.startedAt.getTime();
+  const end = recording.endedAt.getTime();
+  const offset = (d: Date) => Math.max(0, d.getTime() - start);
+
+  const kept = turns.filter(
+    (t) => t.startedAt.getTime() <= end && (t.endedAt?.getTime() ?? end) >= start,
+  );
+  return {
+    startedAt: recording.startedAt.toISOString(),
+    durationMs: end - start,
+    turns: kept.map((t) => ({
+      id: t.id,
+      speaker: t.speaker,
+      text: t.text,
+      startMs: offset(t.startedAt),
+      endMs: t.endedAt && offset(t.endedAt),
+      interrupted: t.interrupted,
+    })),
+    interruptions: kept
+      .filter((t) => t.interrupted && t.endedAt)
+      .map((t) => ({turnId: t.id, atMs: offset(t.endedAt!)})),
+  };
+}
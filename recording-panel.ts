@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {LitElement, css, html} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {Locale, messages} from './i18n';
+
+export interface RecordingFile {
+  label: string;
+  /** Object URL of the file. */
+  href: string;
+  filename: string;
+}
+
+/**
+ * Asks for consent before a conversation is recorded, and offers the
+ * exported files afterwards.
+ *
+ * @fires consent - The user agreed to be recorded.
+ * @fires close - The user declined, or dismissed the files.
+ */
+@customElement('gdm-recording-panel')
+export class GdmRecordingPanel extends LitElement {
+  /** Files to offer; when empty the consent prompt is shown. */
+  @property({attribute: false}) files: RecordingFile[] = [];
+  @property() locale: Locale = 'en-IN';
+
+  static styles = css`
+    :host {
+      display: block;
+      color: white;
+      font: 14px/1.4 system-ui, sans-serif;
+      background: rgba(20, 20, 20, 0.9);
+      border: 1px solid rgba(255, 255, 255, 0.15);
+      border-radius: 12px;
+      padding: 16px;
+      max-width: 320px;
+    }
+
+    h2 {
+      font-size: 16px;
+      margin: 0 0 8px;
+    }
+
+    p {
+      margin: 0 0 12px;
+      opacity: 0.8;
+    }
+
+    .actions {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      justify-content: flex-end;
+    }
+
+    a,
+    button {
+      font: inherit;
+      color: inherit;
+      text-decoration: none;
+      background: rgba(255, 255, 255, 0.08);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      padding: 6px 10px;
+      cursor: pointer;
+    }
+
+    .primary {
+      background: rgba(196, 16, 16, 0.5);
+    }
+  `;
+
+  private emit(type: string) {
+    this.dispatchEvent(new CustomEvent(type, {bubbles: true}));
+  }
+
+  render() {
+    const t = messages(this.locale);
+    if (this.files.length) {
+      return html`
+        <h2>${t.recordingSaved}</h2>
+        <p>${t.recordingFiles}</p>
+        <div class="actions">
+          ${this.files.map(
+            (f) => html`<a href=${f.href} download=${f.filename}>${f.label}</a>`,
+          )}
+          <button @click=${() => this.emit('close')}>${t.done}</button>
+        </div>
+      `;
+    }
+    return html`
+      <h2>${t.recordTitle}</h2>
+      <p>${t.recordConsent}</p>
+      <div class="actions">
+        <button @click=${() => this.emit('close')}>${t.cancel}</button>
+        <button class="primary" @click=${() => this.emit('consent')}>
+          ${t.agreeAndRecord}
+        </button>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-recording-panel': GdmRecordingPanel;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as THREE from 'three';
+
+/** Objects the avatar animates directly. */
+export type RigNode = 'head' | 'headMesh' | 'leftEar' | 'rightEar';
+
+/**
+ * How a family of avatar models names the things we animate. Morph controls
+ * are logical names (`jaw`, `smile`, `blinkLeft`, …) or standard ARKit /
+ * Oculus names that a rig spells differently; any name not listed is used
+ * as is.
+ */
+export interface RigProfile {
+  name: string;
+  /** Present morphs / object names that identify this rig. */
+  detect: {morphs?: string[]; nodes?: string[]};
+  /** Control → candidate morph names; all candidates present are driven. */
+  morphs: Record<string, string[]>;
+  /** Node → candidate object names; the first one found is used. */
+  nodes: Partial<Record<RigNode, string[]>>;
+}
+
+export const RPM_RIG: RigProfile = {
+  name: 'rpm',
+  detect: {nodes: ['Wolf3D_Head']},
+  morphs: {
+    jaw: ['mouthOpen'],
+    smile: ['mouthSmile'],
+    blinkLeft: ['eyeBlinkLeft'],
+    blinkRight: ['eyeBlinkRight'],
+  },
+  nodes: {
+    head: ['Head'],
+    headMesh: ['Wolf3D_Head'],
+    leftEar: ['LeftEar'],
+    rightEar: ['RightEar'],
+  },
+};
+
+export const ARKIT_RIG: RigProfile = {
+  name: 'arkit',
+  detect: {morphs: ['jawOpen', 'eyeBlinkLeft']},
+  morphs: {
+    jaw: ['jawOpen'],
+    smile: ['mouthSmileLeft', 'mouthSmileRight'],
+    blinkLeft: ['eyeBlinkLeft'],
+    blinkRight: ['eyeBlinkRight'],
+  },
+  nodes: {head: ['Head', 'head', 'mixamorigHead']},
+};
+
+/** VRoid-exported VRM files loaded as plain glTF. */
+export const VRM_RIG: RigProfile = {
+  name: 'vrm',
+  detect: {morphs: ['Fcl_MTH_A']},
+  morphs: {
+    jaw: ['Fcl_MTH_A'],
+    smile: ['Fcl_MTH_Joy'],
+    blinkLeft: ['Fcl_EYE_Close_L'],
+    blinkRight: ['Fcl_EYE_Close_R'],
+    viseme_aa: ['Fcl_MTH_A'],
+    viseme_I: ['Fcl_MTH_I'],
+    viseme_U: ['Fcl_MTH_U'],
+    viseme_E: ['Fcl_MTH_E'],
+    viseme_O: ['Fcl_MTH_O'],
+    browInnerUp: ['Fcl_BRW_Surprised'],
+    eyeWideLeft: ['Fcl_EYE_Surprised'],
+    eyeWideRight: ['Fcl_EYE_Surprised'],
+    mouthFrownLeft: ['Fcl_MTH_Sorrow'],
+    mouthFrownRight: ['Fcl_MTH_Sorrow'],
+  },
+  nodes: {head: ['J_Bip_C_Head', 'Head']},
+};
+
+export const RIG_PROFILES: RigProfile[] = [RPM_RIG, VRM_RIG, ARKIT_RIG];
+
+interface MorphSlot {
+  influences: number[];
+  index: number;
+}
+
+function morphDictionaries(root: THREE.Object3D) {
+  const meshes: THREE.Mesh[] = [];
+  root.traverse((c: any) => {
+    if (c.isMesh && c.morphTargetDictionary && c.morphTargetInfluences) meshes.push(c);
+  });
+  return meshes;
+}
+
+/** First profile whose `detect` names are all present; ARKit as a last resort. */
+export function detectRig(root: THREE.Object3D, profiles = RIG_PROFILES) {
+  const meshes = morphDictionaries(root);
+  const hasMorph = (m: string) => meshes.some((mesh) => m in mesh.morphTargetDictionary!);
+  return (
+    profiles.find(
+      ({detect}) =>
+        (detect.morphs ?? []).every(hasMorph) &&
+        (detect.nodes ?? []).every((n) => root.getObjectByName(n)),
+    ) ?? ARKIT_RIG
+  );
+}
+
+/**
+ * A rig profile resolved against one loaded model: control names map to the
+ * morph-influence slots and objects that actually exist in it.
+ */
+export class RigBinding {
+  private meshes: THREE.Mesh[];
+  private morphSlots = new Map<string, MorphSlot[]>();
+  private nodeCache = new Map<RigNode, THREE.Object3D | undefined>();
+
+  constructor(
+    readonly root: THREE.Object3D,
+    readonly profile: RigProfile,
+  ) {
+    this.meshes = morphDictionaries(root);
+  }
+
+  /** Influence slots a control drives, across every mesh that has them. */
+  slots(control: string): MorphSlot[] {
+    let slots = this.morphSlots.get(control);
+    if (!slots) {
+      const names = this.profile.morphs[control] ?? [control];
+      slots = [];
+      for (const mesh of this.meshes) {
+        for (const name of names) {
+          const index = mesh.morphTargetDictionary![name];
+          if (index !== undefined) slots.push({influences: mesh.morphTargetInfluences!, index});
+        }
+      }
+      this.morphSlots.set(control, slots);
+    }
+    return slots;
+  }
+
+  has(control: string) {
+    return this.slots(control).length > 0;
+  }
+
+  /** Whether any of `controls` drives `slot` too, e.g. a raw morph also mapped to `jaw`. */
+  drivenBy({influences, index}: MorphSlot, controls: readonly string[]) {
+    return controls.some((c) =>
+      this.slots(c).some((s) => s.influences === influences && s.index === index),
+    );
+  }
+
+  node(node: RigNode) {
+    if (!this.nodeCache.has(node)) {
+      const found = (this.profile.nodes[node] ?? [])
+        .map((n) => this.root.getObjectByName(n))
+        .find(Boolean);
+      this.nodeCache.set(node, found);
+    }
+    return this.nodeCache.get(node);
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Companion server that keeps the Gemini API key off the browser. The app
+ * asks for a short-lived, single-use token, then opens its Live WebSocket
+ * here; we attach the key and relay frames to Google unchanged.
+ *
+ *   GEMINI_API_KEY=... npm run live-proxy
+ *
+ *   POST /api/live/token          → {token, expiresAt}
+ *   GET  /api/live/socket?token=  → WebSocket relay to BidiGenerateContent
+ *
+ * Settings (environment):
+ *   PORT                     default 8788
+ *   ALLOWED_ORIGINS          comma-separated; default the Vite dev origins
+ *   TOKEN_TTL_MS             default 60000
+ *   TOKENS_PER_MINUTE        per client, default 10
+ *   MAX_SESSIONS_PER_CLIENT  concurrent sockets, default 2
+ *   TOKEN_SECRET             signing key; random per start by default
+ *   TRUST_PROXY=1            identify clients by X-Forwarded-For
+ */
+import {createHmac, randomBytes, timingSafeEqual} from 'node:crypto';
+import {createServer, IncomingMessage, ServerResponse} from 'node:http';
+import WebSocket, {WebSocketServer} from 'ws';
+
+const API_KEY = process.env.GEMINI_API_KEY;
+if (!API_KEY) {
+  console.error('GEMINI_API_KEY is not set.');
+  process.exit(1);
+}
+
+const PORT = Number(process.env.PORT ?? 8788);
+const ALLOWED_ORIGINS = new Set(
+  (process.env.ALLOWED_ORIGINS ?? 'http://localhost:5173,http://127.0.0.1:5173')
+    .split(',')
+    .map((o) => o.trim())
+    .filter(Boolean),
+);
+const TOKEN_TTL_MS = Number(process.env.TOKEN_TTL_MS ?? 60000);
+const TOKENS_PER_MINUTE = Number(process.env.TOKENS_PER_MINUTE ?? 10);
+const MAX_SESSIONS_PER_CLIENT = Number(process.env.MAX_SESSIONS_PER_CLIENT ?? 2);
+const TOKEN_SECRET = process.env.TOKEN_SECRET ?? randomBytes(32).toString('hex');
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+
+const UPSTREAM =
+  'wss://generativelanguage.googleapis.com/ws/' +
+  'google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent';
+
+/* ---------------------- Clients ---------------------- */
+
+function clientId(req: IncomingMessage) {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+function allowedOrigin(req: IncomingMessage) {
+  const origin = req.headers.origin;
+  return origin && ALLOWED_ORIGINS.has(origin) ? origin : undefined;
+}
+
+/** Sliding-window limit of `limit` events per `windowMs` for each key. */
+class RateLimiter {
+  private events = new Map<string, number[]>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  take(key: string) {
+    const now = Date.now();
+    const recent = (this.events.get(key) ?? []).filter((t) => now - t < this.windowMs);
+    if (recent.length >= this.limit) {
+      this.events.set(key, recent);
+      return false;
+    }
+    recent.push(now);
+    this.events.set(key, recent);
+    // Forget clients with nothing left in the window.
+    for (const [k, times] of this.events) {
+      if (now - times[times.length - 1] >= this.windowMs) this.events.delete(k);
+    }
+    return true;
+  }
+}
+
+const tokenLimiter = new RateLimiter(TOKENS_PER_MINUTE, 60000);
+const sessions = new Map<string, number>();
+
+/* ---------------------- Tokens ---------------------- */
+
+// Nonces of redeemed tokens, kept until they would have expired anyway.
+const redeemed = new Map<string, number>();
+
+function sign(payload: string) {
+  return createHmac('sha256', TOKEN_SECRET).update(payload).digest('base64url');
+}
+
+/** A token for one socket from `client` on `origin`, valid for TOKEN_TTL_MS. */
+function issueToken(client: string, origin: string) {
+  const expiresAt = Date.now() + TOKEN_TTL_MS;
+  const payload = Buffer.from(
+    JSON.stringify({client, origin, exp: expiresAt, nonce: randomBytes(12).toString('hex')}),
+  ).toString('base64url');
+  return {token: `${payload}.${sign(payload)}`, expiresAt};
+}
+
+/** Check and use up `token`; returns why it's refused, if it is. */
+function redeemToken(token: string, client: string, origin: string) {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return 'malformed token';
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return 'bad signature';
+  }
+  const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  const now = Date.now();
+  if (claims.exp < now) return 'token expired';
+  if (claims.client !== client || claims.origin !== origin) return 'token issued to another client';
+  if (redeemed.has(claims.nonce)) return 'token already used';
+
+  redeemed.set(claims.nonce, claims.exp);
+  for (const [nonce, exp] of redeemed) if (exp < now) redeemed.delete(nonce);
+  return undefined;
+}
+
+/* ---------------------- HTTP ---------------------- */
+
+function reply(res: ServerResponse, status: number, body: unknown, origin?: string) {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    Vary: 'Origin',
+  };
+  if (origin) headers['Access-Control-Allow-Origin'] = origin;
+  res.writeHead(status, headers).end(JSON.stringify(body));
+}
+
+const server = createServer((req, res) => {
+  const {pathname} = new URL(req.url ?? '/', 'http://localhost');
+  const origin = allowedOrigin(req);
+
+  if (pathname !== '/api/live/token') return reply(res, 404, {error: 'Not found'});
+  if (!origin) return reply(res, 403, {error: 'Origin not allowed'});
+  if (req.method === 'OPTIONS') {
+    res
+      .writeHead(204, {
+        'Access-Control-Allow-Origin': origin,
+        'Access-Control-Allow-Methods': 'POST',
+        'Access-Control-Max-Age': '600',
+        Vary: 'Origin',
+      })
+      .end();
+    return;
+  }
+  if (req.method !== 'POST') return reply(res, 405, {error: 'Use POST'}, origin);
+
+  const client = clientId(req);
+  if (!tokenLimiter.take(client)) {
+    res.setHeader('Retry-After', '60');
+    return reply(res, 429, {error: 'Too many token requests'}, origin);
+  }
+  reply(res, 200, issueToken(client, origin), origin);
+});
+
+/* ---------------------- WebSocket relay ---------------------- */
+
+const relay = new WebSocketServer({noServer: true, maxPayload: 4 * 1024 * 1024});
+/** Most a client may send before Google answers; a few seconds of mic audio. */
+const MAX_PENDING_BYTES = 1024 * 1024;
+
+/** Close codes an endpoint may send; the rest only describe local failures. */
+function sendableCode(code: number) {
+  return (code >= 1000 && code <= 1003) || (code >= 1007 && code <= 1014) || (code >= 3000 && code <= 4999)
+    ? code
+    : 1011;
+}
+
+function byteLength(data: WebSocket.RawData) {
+  return Array.isArray(data)
+    ? data.reduce((n, chunk) => n + chunk.byteLength, 0)
+    : data.byteLength;
+}
+
+function closeReason(reason: Buffer | string) {
+  // Close reasons are limited to 123 bytes.
+  return Buffer.from(reason).subarray(0, 123).toString();
+}
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const origin = allowedOrigin(req);
+  const client = clientId(req);
+  const refuse = (status: number, message: string) => {
+    socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  };
+
+  if (url.pathname !== '/api/live/socket') return refuse(404, 'Not Found');
+  if (!origin) return refuse(403, 'Origin not allowed');
+  const problem = redeemToken(url.searchParams.get('token') ?? '', client, origin);
+  if (problem) return refuse(401, problem);
+  if ((sessions.get(client) ?? 0) >= MAX_SESSIONS_PER_CLIENT) {
+    return refuse(429, 'Too many sessions');
+  }
+
+  // Take the slot now: upgrades in flight must count, or a burst gets past
+  // the limit. A failed upgrade gives it back.
+  sessions.set(client, (sessions.get(client) ?? 0) + 1);
+  const release = () => {
+    sessions.set(client, (sessions.get(client) ?? 1) - 1);
+    if (!sessions.get(client)) sessions.delete(client);
+  };
+  let upgraded = false;
+  socket.once('close', () => {
+    if (!upgraded) release();
+  });
+
+  relay.handleUpgrade(req, socket, head, (downstream) => {
+    upgraded = true;
+    const upstream = new WebSocket(`${UPSTREAM}?key=${API_KEY}`);
+    // The app sends its setup right away; hold frames until Google answers.
+    const pending: WebSocket.RawData[] = [];
+    let pendingBytes = 0;
+
+    upstream.on('open', () => {
+      for (const data of pending) upstream.send(data);
+      pending.length = 0;
+      pendingBytes = 0;
+    });
+    upstream.on('message', (data, isBinary) => downstream.send(data, {binary: isBinary}));
+    upstream.on('close', (code, reason) => {
+      downstream.close(sendableCode(code), closeReason(reason));
+    });
+    upstream.on('error', (e) => {
+      console.error(`Upstream error for ${client}:`, e.message);
+      downstream.close(1011, 'Upstream connection failed');
+    });
+
+    downstream.on('message', (data, isBinary) => {
+      if (upstream.readyState === WebSocket.OPEN) {
+        upstream.send(data, {binary: isBinary});
+        return;
+      }
+      pendingBytes += byteLength(data);
+      if (pendingBytes > MAX_PENDING_BYTES) {
+        downstream.close(1013, 'Upstream not ready');
+        return;
+      }
+      pending.push(data);
+    });
+    downstream.on('close', (code, reason) => {
+      release();
+      if (upstream.readyState === WebSocket.CONNECTING) upstream.terminate();
+      else upstream.close(sendableCode(code), closeReason(reason));
+    });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Live proxy on http://localhost:${PORT} for ${[...ALLOWED_ORIGINS].join(', ')}`);
+});
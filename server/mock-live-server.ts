@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Local stand-in for the Live API's WebSocket endpoint, for working without
+ * a key or network. Point the app at it with `LIVE_SERVER_URL`:
+ *
+ *   npm run mock-server [script.json]
+ *   LIVE_SERVER_URL=ws://localhost:8787 npm run dev
+ *
+ * `script.json` is a `MockScript` ({steps: [...]}) or a `RecordedSession`
+ * ({model, messages: [...]}) captured with `RecordingTransport`: open the
+ * app with `?record` and use "Download sessions" in the diagnostics panel.
+ * Of a downloaded list, the first session plays. Without a file the demo
+ * script plays.
+ */
+import {readFileSync} from 'node:fs';
+import {WebSocketServer} from 'ws';
+import {
+  ClientInbox,
+  ClientMessageKind,
+  DEMO_SCRIPT,
+  MockScript,
+  runScript,
+  scriptFromRecording,
+} from '../mock-transport';
+
+const CLIENT_KINDS: ClientMessageKind[] = ['realtimeInput', 'clientContent', 'toolResponse'];
+
+function loadScript(file?: string): MockScript {
+  if (!file) return DEMO_SCRIPT;
+  let data = JSON.parse(readFileSync(file, 'utf8'));
+  if (Array.isArray(data)) data = data[0];
+  return Array.isArray(data.messages) ? scriptFromRecording(data) : data;
+}
+
+const script = loadScript(process.argv[2]);
+const port = Number(process.env.PORT ?? 8787);
+const server = new WebSocketServer({port});
+
+server.on('connection', (ws) => {
+  const peer = {
+    closed: false,
+    inbox: new ClientInbox(),
+    send: (message: unknown) => {
+      if (!peer.closed) ws.send(JSON.stringify(message));
+    },
+    close: (code: number, reason: string) => {
+      if (peer.closed) return;
+      peer.closed = true;
+      ws.close(code, reason);
+    },
+  };
+
+  ws.on('message', (data) => {
+    let message: Record<string, any>;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      peer.close(1007, 'Invalid JSON');
+      return;
+    }
+    if (message.setup) {
+      const modalities: string[] = message.setup.generationConfig?.responseModalities ?? [];
+      console.log(`Session for ${message.setup.model}; playing ${script.name ?? 'script'}`);
+      peer.send({setupComplete: {}});
+      runScript(script, peer, {textOnly: modalities.includes('TEXT')});
+      return;
+    }
+    for (const kind of CLIENT_KINDS) {
+      if (kind in message) peer.inbox.push(kind);
+    }
+  });
+  ws.on('close', () => (peer.closed = true));
+});
+
+console.log(`Mock Live API listening on ws://localhost:${port}`);
@@ -0,0 +1,412 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {LitElement, css, html} from 'lit';
+import {customElement, property, query} from 'lit/decorators.js';
+import './level-meter';
+import {LANGUAGES, Locale, messages} from './i18n';
+import {ResolvedLocation} from './location';
+import {AssistantProfile, ProfileSummary} from './profile';
+import {BargeIn, InputMode, ReplyMode, UserSettings} from './settings';
+import {WAKE_PHRASE} from './wakeword';
+
+const REPLY_MODES: ReplyMode[] = ['both', 'audio', 'text'];
+
+type BooleanSetting = {
+  [K in keyof UserSettings]: UserSettings[K] extends boolean ? K : never;
+}[keyof UserSettings];
+
+const INPUT_MODES: InputMode[] = ['hands-free', 'push-to-talk', 'wake-word'];
+
+const BARGE_IN: BargeIn[] = ['duck', 'stop', 'off'];
+
+/**
+ * Settings overlay. Changes are reported as events; the host applies them.
+ *
+ * @fires profile-change - `detail` is the selected profile name.
+ * @fires settings-change - `detail` is the changed part of `UserSettings`.
+ * @fires train-wake-word - The user wants to record the wake phrase.
+ * @fires location-change - `detail` is a city or pincode, or `''` to detect
+ *   the location automatically again.
+ * @fires close - The user dismissed the panel.
+ */
+@customElement('gdm-settings-panel')
+export class GdmSettingsPanel extends LitElement {
+  @property({attribute: false}) profiles: ProfileSummary[] = [];
+  @property({attribute: false}) profile?: AssistantProfile;
+  @property({attribute: false}) location?: ResolvedLocation;
+  @property({attribute: false}) settings?: UserSettings;
+  /** Enrolled samples of the wake phrase. */
+  @property({type: Number}) wakeWordSamples = 0;
+  @property({attribute: false}) inputs: readonly MediaDeviceInfo[] = [];
+  @property({attribute: false}) outputs: readonly MediaDeviceInfo[] = [];
+  /** Hide the speaker choice where the browser can't route audio. */
+  @property({type: Boolean}) canChooseOutput = false;
+  /** Mic and assistant audio, for the level meters. */
+  @property({attribute: false}) inputNode?: AudioNode;
+  @property({attribute: false}) outputNode?: AudioNode;
+  @property() locale: Locale = 'en-IN';
+
+  @query('#location') private locationInput!: HTMLInputElement;
+
+  static styles = css`
+    :host {
+      display: block;
+      color: white;
+      font: 14px/1.4 system-ui, sans-serif;
+      background: rgba(20, 20, 20, 0.9);
+      border: 1px solid rgba(255, 255, 255, 0.15);
+      border-radius: 12px;
+      padding: 16px;
+      min-width: 260px;
+      max-height: 90vh;
+      overflow-y: auto;
+    }
+
+    header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 12px;
+    }
+
+    h2 {
+      font-size: 16px;
+      margin: 0;
+    }
+
+    label {
+      display: block;
+      margin: 8px 0 4px;
+      opacity: 0.8;
+    }
+
+    select,
+    button {
+      font: inherit;
+      color: inherit;
+      background: rgba(255, 255, 255, 0.08);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      padding: 6px 8px;
+    }
+
+    select {
+      width: 100%;
+    }
+
+    .row {
+      display: flex;
+      gap: 6px;
+    }
+
+    input {
+      flex: 1;
+      font: inherit;
+      color: inherit;
+      background: rgba(255, 255, 255, 0.08);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      padding: 6px 8px;
+    }
+
+    .detect {
+      margin-top: 6px;
+    }
+
+    gdm-level-meter {
+      margin-top: 6px;
+    }
+
+    .check {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+
+    input[type='range'],
+    input[type='checkbox'] {
+      flex: none;
+      padding: 0;
+    }
+
+    input[type='range'] {
+      width: 100%;
+    }
+
+    .hint {
+      font-size: 12px;
+      opacity: 0.7;
+      margin-top: 4px;
+    }
+
+    dl {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 2px 12px;
+      margin: 8px 0 0;
+      font-size: 12px;
+      opacity: 0.7;
+    }
+
+    dd {
+      margin: 0;
+    }
+  `;
+
+  private get strings() {
+    return messages(this.locale);
+  }
+
+  private emit(type: string, detail?: unknown) {
+    this.dispatchEvent(new CustomEvent(type, {detail, bubbles: true}));
+  }
+
+  private toggle(key: BooleanSetting, label: string) {
+    return html`
+      <label class="check">
+        <input
+          type="checkbox"
+          .checked=${this.settings?.[key] ?? false}
+          @change=${(e: Event) =>
+            this.emit('settings-change', {[key]: (e.target as HTMLInputElement).checked})} />
+        ${label}
+      </label>
+    `;
+  }
+
+  private deviceSelect(
+    id: string,
+    key: 'inputDeviceId' | 'outputDeviceId',
+    devices: readonly MediaDeviceInfo[],
+  ) {
+    const current = this.settings?.[key] ?? '';
+    return html`
+      <select
+        id=${id}
+        @change=${(e: Event) =>
+          this.emit('settings-change', {[key]: (e.target as HTMLSelectElement).value})}>
+        <option value="" ?selected=${!current}>${this.strings.systemDefault}</option>
+        ${devices
+          .filter((d) => d.deviceId && d.deviceId !== 'default')
+          .map(
+            (d, i) => html`
+              <option value=${d.deviceId} ?selected=${d.deviceId === current}>
+                ${d.label || this.strings.device(i + 1)}
+              </option>
+            `,
+          )}
+      </select>
+    `;
+  }
+
+  render() {
+    const current = this.profile;
+    const t = this.strings;
+    return html`
+      <header>
+        <h2>${t.settings}</h2>
+        <button @click=${() => this.emit('close')}>${t.close}</button>
+      </header>
+
+      <label for="profile">${t.assistantProfile}</label>
+      <select
+        id="profile"
+        @change=${(e: Event) =>
+          this.emit('profile-change', (e.target as HTMLSelectElement).value)}>
+        ${this.profiles.map(
+          (p) => html`
+            <option value=${p.name} ?selected=${p.name === current?.name}>
+              ${p.label}
+            </option>
+          `,
+        )}
+      </select>
+      ${current
+        ? html`
+            <dl>
+              <dt>${t.model}</dt>
+              <dd>${current.model}</dd>
+              <dt>${t.voice}</dt>
+              <dd>${current.voice}</dd>
+              <dt>${t.language}</dt>
+              <dd>${current.language}</dd>
+            </dl>
+          `
+        : ''}
+
+      <label for="reply-mode">${t.replies}</label>
+      <select
+        id="reply-mode"
+        @change=${(e: Event) =>
+          this.emit('settings-change', {
+            replyMode: (e.target as HTMLSelectElement).value as ReplyMode,
+          })}>
+        ${REPLY_MODES.map(
+          (mode) => html`
+            <option value=${mode} ?selected=${mode === this.settings?.replyMode}>
+              ${t.replyModes[mode]}
+            </option>
+          `,
+        )}
+      </select>
+
+      <label for="language">${t.language}</label>
+      <select
+        id="language"
+        @change=${(e: Event) =>
+          this.emit('settings-change', {
+            language: (e.target as HTMLSelectElement).value as Locale | '',
+          })}>
+        <option value="" ?selected=${!this.settings?.language}>
+          ${t.profileDefault(current?.language)}
+        </option>
+        ${Object.entries(LANGUAGES).map(
+          ([code, {nativeName}]) => html`
+            <option value=${code} ?selected=${code === this.settings?.language}>
+              ${nativeName}
+            </option>
+          `,
+        )}
+      </select>
+      ${this.toggle('autoDetectLanguage', t.autoDetectLanguage)}
+      ${this.toggle('captions', t.showCaptions)}
+      ${this.toggle('highContrast', t.highContrast)}
+
+      <label for="input-mode">${t.microphone}</label>
+      <select
+        id="input-mode"
+        @change=${(e: Event) =>
+          this.emit('settings-change', {
+            inputMode: (e.target as HTMLSelectElement).value as InputMode,
+          })}>
+        ${INPUT_MODES.map(
+          (mode) => html`
+            <option value=${mode} ?selected=${mode === this.settings?.inputMode}>
+              ${t.inputModes[mode]}${mode === 'wake-word' ? ` ("${WAKE_PHRASE}")` : ''}
+            </option>
+          `,
+        )}
+      </select>
+      ${this.settings?.inputMode === 'wake-word'
+        ? html`
+            <button class="detect" @click=${() => this.emit('train-wake-word')}>
+              ${this.wakeWordSamples ? t.recordWakePhraseAgain : t.recordWakePhrase}
+            </button>
+            <div class="hint">
+              ${this.wakeWordSamples
+                ? t.wakeSamples(this.wakeWordSamples)
+                : t.notRecordedYet}
+            </div>
+          `
+        : ''}
+
+      <label for="barge-in">${t.talkingOver}</label>
+      <select
+        id="barge-in"
+        @change=${(e: Event) =>
+          this.emit('settings-change', {
+            bargeIn: (e.target as HTMLSelectElement).value as BargeIn,
+          })}>
+        ${BARGE_IN.map(
+          (mode) => html`
+            <option value=${mode} ?selected=${mode === this.settings?.bargeIn}>
+              ${t.bargeInModes[mode]}
+            </option>
+          `,
+        )}
+      </select>
+
+      <label for="vad-threshold">
+        ${t.vadThreshold(this.settings?.vadThresholdDb ?? 0)}
+      </label>
+      <input
+        id="vad-threshold"
+        type="range"
+        min="-70"
+        max="-20"
+        step="1"
+        .value=${String(this.settings?.vadThresholdDb)}
+        @change=${(e: Event) =>
+          this.emit('settings-change', {
+            vadThresholdDb: Number((e.target as HTMLInputElement).value),
+          })} />
+      ${this.toggle('gateSilence', t.gateSilence)}
+      ${this.toggle('clientTurns', t.clientTurns)}
+
+      <label for="input-device">${t.microphoneDevice}</label>
+      ${this.deviceSelect('input-device', 'inputDeviceId', this.inputs)}
+      <gdm-level-meter .node=${this.inputNode}></gdm-level-meter>
+      ${this.toggle('echoCancellation', t.echoCancellation)}
+      ${this.toggle('noiseSuppression', t.noiseSuppression)}
+      ${this.toggle('autoGainControl', t.autoGainControl)}
+      <label for="input-gain">${t.inputGain(this.settings?.inputGain ?? 1)}</label>
+      <input
+        id="input-gain"
+        type="range"
+        min="0"
+        max="3"
+        step="0.1"
+        .value=${String(this.settings?.inputGain)}
+        @change=${(e: Event) =>
+          this.emit('settings-change', {
+            inputGain: Number((e.target as HTMLInputElement).value),
+          })} />
+
+      ${this.canChooseOutput
+        ? html`
+            <label for="output-device">${t.speaker}</label>
+            ${this.deviceSelect('output-device', 'outputDeviceId', this.outputs)}
+          `
+        : ''}
+      <gdm-level-meter .node=${this.outputNode}></gdm-level-meter>
+      <label for="output-volume">
+        ${t.volume(Math.round((this.settings?.outputVolume ?? 1) * 100))}
+      </label>
+      <input
+        id="output-volume"
+        type="range"
+        min="0"
+        max="1"
+        step="0.05"
+        .value=${String(this.settings?.outputVolume)}
+        @change=${(e: Event) =>
+          this.emit('settings-change', {
+            outputVolume: Number((e.target as HTMLInputElement).value),
+          })} />
+
+      <label for="location">${t.location}</label>
+      <form
+        class="row"
+        @submit=${(e: Event) => {
+          e.preventDefault();
+          this.emit('location-change', this.locationInput.value);
+        }}>
+        <input id="location" placeholder=${t.cityOrPincode} />
+        <button type="submit">${t.set}</button>
+      </form>
+      <button
+        class="detect"
+        @click=${() => {
+          this.locationInput.value = '';
+          this.emit('location-change', '');
+        }}>
+        ${t.useMyLocation}
+      </button>
+      <div class="hint">
+        ${this.location
+          ? `${this.location.name} (${t.locationSources[this.location.source]})`
+          : t.locationUnknown}
+      </div>
+
+      ${this.toggle('diagnostics', t.showDiagnostics)}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-settings-panel': GdmSettingsPanel;
+  }
+}
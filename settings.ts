@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {Locale} from './i18n';
+
+/** How the assistant answers: spoken, written, or spoken with a transcript. */
+export type ReplyMode = 'audio' | 'text' | 'both';
+
+/** When the mic streams: always, while a key is held, or after the wake phrase. */
+export type InputMode = 'hands-free' | 'push-to-talk' | 'wake-word';
+
+/** What the assistant does when the user starts talking over it. */
+export type BargeIn = 'off' | 'duck' | 'stop';
+
+/** Per-device preferences, kept in `localStorage`. */
+export interface UserSettings {
+  replyMode: ReplyMode;
+  /** Conversation and UI language; `''` is the profile's. */
+  language: Locale | '';
+  /** Switch to the language of the user's first sentence. */
+  autoDetectLanguage: boolean;
+  /** Show the assistant's words on screen as it speaks. */
+  captions: boolean;
+  highContrast: boolean;
+  inputMode: InputMode;
+  bargeIn: BargeIn;
+  /** Don't stream the microphone while nobody is speaking. */
+  gateSilence: boolean;
+  /** Mark turns with the client VAD instead of the server's. */
+  clientTurns: boolean;
+  /** Client VAD threshold in dBFS; lower picks up quieter voices. */
+  vadThresholdDb: number;
+  /** Chosen microphone and speaker; `''` is the system default. */
+  inputDeviceId: string;
+  outputDeviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  /** Gain on the microphone, 0..3. */
+  inputGain: number;
+  /** Assistant volume, 0..1. */
+  outputVolume: number;
+  /** Show the live session metrics. */
+  diagnostics: boolean;
+}
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  replyMode: 'both',
+  language: '',
+  autoDetectLanguage: false,
+  captions: false,
+  highContrast: false,
+  inputMode: 'hands-free',
+  bargeIn: 'duck',
+  gateSilence: false,
+  clientTurns: false,
+  vadThresholdDb: -50,
+  inputDeviceId: '',
+  outputDeviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  inputGain: 1,
+  outputVolume: 1,
+  diagnostics: false,
+};
+
+const STORAGE_KEY = 'helpyy.settings';
+
+export function loadSettings(): UserSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return {...DEFAULT_SETTINGS, ...saved};
+  } catch {
+    return {...DEFAULT_SETTINGS};
+  }
+}
+
+export function saveSettings(settings: UserSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
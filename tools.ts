@@ -0,0 +1,362 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  FunctionCall,
+  FunctionDeclaration,
+  FunctionResponse,
+  Tool,
+  Type,
+} from '@google/genai';
+import {
+  BookingBackend,
+  BookingDetails,
+  formatDate,
+  parseDate,
+} from './booking';
+import {CATEGORIES, DirectoryProvider, GeoPoint, Listing} from './directory';
+import {Emotion, EMOTIONS, isEmotion} from './expression';
+import {GESTURES, GestureOptions, isGesture} from './gestures';
+
+export type ToolArgs = Record<string, unknown>;
+export type ToolHandler = (args: ToolArgs) => Promise<unknown> | unknown;
+
+/**
+ * Function declarations exposed to the Live session, and the local handlers
+ * that answer the model's `toolCall` messages.
+ */
+export class ToolRegistry {
+  private tools = new Map<
+    string,
+    {declaration: FunctionDeclaration; handler: ToolHandler}
+  >();
+
+  register(declaration: FunctionDeclaration, handler: ToolHandler) {
+    this.tools.set(declaration.name!, {declaration, handler});
+    return this;
+  }
+
+  /** Tool list for `LiveConnectConfig.tools`, optionally limited to `enabled`. */
+  toTools(enabled?: readonly string[]): Tool[] {
+    const functionDeclarations = enabled
+      ? this.declarations.filter((d) => enabled.includes(d.name!))
+      : this.declarations;
+    return functionDeclarations.length ? [{functionDeclarations}] : [];
+  }
+
+  get declarations() {
+    return [...this.tools.values()].map((t) => t.declaration);
+  }
+
+  /**
+   * Run a call from the model; failures are reported back, not thrown.
+   * Tools outside `enabled` are unknown, as they are to `toTools`.
+   */
+  async call(
+    {id, name, args}: FunctionCall,
+    enabled?: readonly string[],
+  ): Promise<FunctionResponse> {
+    const tool = this.tools.get(name ?? '');
+    if (!tool || (enabled && !enabled.includes(name!))) {
+      return {id, name, response: {error: `Unknown function: ${name}`}};
+    }
+    try {
+      const output = await tool.handler(args ?? {});
+      return {id, name, response: {output}};
+    } catch (e) {
+      console.error(`Tool ${name} failed:`, e);
+      return {id, name, response: {error: String(e?.message ?? e)}};
+    }
+  }
+}
+
+/** The subset of a listing worth reading out loud. */
+function summarize(l: Listing) {
+  return {
+    id: l.id,
+    name: l.name,
+    category: l.category,
+    rating: l.rating,
+    reviewCount: l.reviewCount,
+    distanceKm: l.distanceKm,
+    address: l.address,
+  };
+}
+
+/**
+ * `searchListings` and `getListingDetails`, answered from `provider`.
+ * `origin` returns the user's position at call time, if known.
+ */
+export function registerDirectoryTools(
+  registry: ToolRegistry,
+  provider: DirectoryProvider,
+  origin: () => GeoPoint | undefined,
+) {
+  registry.register(
+    {
+      name: 'searchListings',
+      description:
+        'Search the HelpOne directory for businesses and services near the user. ' +
+        'Returns names, ratings and distances of matching listings.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          category: {
+            type: Type.STRING,
+            enum: [...CATEGORIES],
+            description: 'Listing category.',
+          },
+          query: {
+            type: Type.STRING,
+            description: 'Free text to match against names and descriptions.',
+          },
+          radiusKm: {
+            type: Type.NUMBER,
+            description: 'Search radius in kilometres. Defaults to 10.',
+          },
+        },
+      },
+    },
+    async (args) => {
+      const listings = await provider.search({
+        category: args.category as string | undefined,
+        query: args.query as string | undefined,
+        radiusKm: args.radiusKm as number | undefined,
+        near: origin(),
+      });
+      return {count: listings.length, listings: listings.map(summarize)};
+    },
+  );
+
+  registry.register(
+    {
+      name: 'getListingDetails',
+      description:
+        'Get full details (phone, opening hours, address) of one listing ' +
+        'returned by searchListings.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          id: {type: Type.STRING, description: 'Listing id.'},
+        },
+        required: ['id'],
+      },
+    },
+    async (args) => {
+      const listing = await provider.getListing(String(args.id), origin());
+      if (!listing) throw new Error(`No listing with id ${args.id}`);
+      return listing;
+    },
+  );
+
+  return registry;
+}
+
+/** A `YYYY-MM-DD` argument, checked to be today or later. */
+function bookingDate(value: unknown) {
+  const date = String(value ?? '');
+  if (!parseDate(date)) throw new Error(`Not a YYYY-MM-DD date: ${value}`);
+  if (date < formatDate(new Date())) throw new Error(`${date} has passed`);
+  return date;
+}
+
+/**
+ * `checkAvailability` and `createBooking`. Bookings aren't made by the
+ * model: `createBooking` hands a draft to `review`, which shows it to the
+ * user to correct and submit.
+ */
+export function registerBookingTools(
+  registry: ToolRegistry,
+  backend: BookingBackend,
+  directory: DirectoryProvider,
+  review: (draft: BookingDetails) => void,
+) {
+  registry.register(
+    {
+      name: 'checkAvailability',
+      description:
+        'List the free appointment or reservation slots of a listing on one day.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          listingId: {type: Type.STRING, description: 'Listing id.'},
+          date: {type: Type.STRING, description: 'Day to check, as YYYY-MM-DD.'},
+        },
+        required: ['listingId', 'date'],
+      },
+    },
+    async (args) => {
+      const date = bookingDate(args.date);
+      const slots = await backend.checkAvailability(String(args.listingId), date);
+      return {date, slots};
+    },
+  );
+
+  registry.register(
+    {
+      name: 'createBooking',
+      description:
+        'Book an appointment, table or visit at a listing. Shows the user a ' +
+        'card to check their details and submit; the booking is only made ' +
+        'once they do.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          listingId: {type: Type.STRING, description: 'Listing id.'},
+          date: {type: Type.STRING, description: 'YYYY-MM-DD.'},
+          slot: {
+            type: Type.STRING,
+            description: 'Start time as HH:MM, one returned by checkAvailability.',
+          },
+          name: {type: Type.STRING, description: "The user's name, if they said it."},
+          phone: {type: Type.STRING, description: "The user's phone number, if they said it."},
+          notes: {
+            type: Type.STRING,
+            description: 'Anything the listing should know, e.g. party size or the problem.',
+          },
+        },
+        required: ['listingId', 'date', 'slot'],
+      },
+    },
+    async (args) => {
+      const listingId = String(args.listingId);
+      const listing = await directory.getListing(listingId);
+      if (!listing) throw new Error(`No listing with id ${listingId}`);
+      const date = bookingDate(args.date);
+      const slots = await backend.checkAvailability(listingId, date);
+      const slot = String(args.slot);
+      if (!slots.includes(slot)) {
+        throw new Error(
+          `${slot} is not free on ${date}; free slots: ${slots.join(', ') || 'none'}`,
+        );
+      }
+      review({
+        listingId,
+        listingName: listing.name,
+        name: String(args.name ?? ''),
+        phone: String(args.phone ?? ''),
+        date,
+        slot,
+        notes: args.notes === undefined ? undefined : String(args.notes),
+      });
+      return {
+        status: 'awaiting-confirmation',
+        message: 'The user is checking the details on screen and will submit or cancel.',
+      };
+    },
+  );
+
+  return registry;
+}
+
+/** What the avatar tools need from the avatar element. */
+export interface AvatarControls {
+  setExpression(emotion: Emotion, intensity?: number, holdMs?: number): void;
+  playGesture(name: string, options?: GestureOptions): boolean;
+  startWhisper(): void;
+  stopWhisper(): void;
+  startDance(): void;
+  stopDance(): void;
+}
+
+export const AVATAR_MODES = ['normal', 'whisper', 'dance'] as const;
+
+/**
+ * `setExpression`, `playGesture` and `setAvatarMode`, applied to whatever
+ * `avatar` returns at call time.
+ */
+export function registerAvatarTools(
+  registry: ToolRegistry,
+  avatar: () => AvatarControls | undefined,
+) {
+  registry.register(
+    {
+      name: 'setExpression',
+      description:
+        'Show an emotion on your avatar face to match the conversation, ' +
+        'e.g. happy for good news, concerned when the user has a problem.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          emotion: {type: Type.STRING, enum: [...EMOTIONS]},
+          intensity: {
+            type: Type.NUMBER,
+            description: 'From 0 (subtle) to 1 (strong). Defaults to 0.7.',
+          },
+        },
+        required: ['emotion'],
+      },
+    },
+    (args) => {
+      if (!isEmotion(args.emotion)) {
+        throw new Error(`Unknown emotion: ${args.emotion}`);
+      }
+      const intensity = typeof args.intensity === 'number' ? args.intensity : 0.7;
+      avatar()?.setExpression(args.emotion, intensity, 6000);
+      return {ok: true};
+    },
+  );
+
+  registry.register(
+    {
+      name: 'playGesture',
+      description:
+        'Make your avatar perform a gesture, e.g. wave when greeting or ' +
+        'saying goodbye, nod when agreeing, shrug when you do not know.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          gesture: {type: Type.STRING, enum: [...GESTURES]},
+        },
+        required: ['gesture'],
+      },
+    },
+    (args) => {
+      if (!isGesture(args.gesture)) {
+        throw new Error(`Unknown gesture: ${args.gesture}`);
+      }
+      return {played: avatar()?.playGesture(args.gesture) ?? false};
+    },
+  );
+
+  registry.register(
+    {
+      name: 'setAvatarMode',
+      description:
+        'Change how your avatar moves until told otherwise: whisper when the ' +
+        'user asks you to whisper or keep it quiet (lower your voice too), ' +
+        'dance when they ask you to dance, e.g. while you sing, and normal ' +
+        'when they ask you to stop.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          mode: {type: Type.STRING, enum: [...AVATAR_MODES]},
+        },
+        required: ['mode'],
+      },
+    },
+    (args) => {
+      const controls = avatar();
+      switch (args.mode) {
+        case 'whisper':
+          controls?.stopDance();
+          controls?.startWhisper();
+          break;
+        case 'dance':
+          controls?.stopWhisper();
+          controls?.startDance();
+          break;
+        case 'normal':
+          controls?.stopDance();
+          controls?.stopWhisper();
+          break;
+        default:
+          throw new Error(`Unknown avatar mode: ${args.mode}`);
+      }
+      return {mode: args.mode};
+    },
+  );
+
+  return registry;
+}
@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {LitElement, css, html} from 'lit';
+import {customElement, property, query} from 'lit/decorators.js';
+import {repeat} from 'lit/directives/repeat.js';
+import {Turn} from './conversation';
+import {Locale, messages} from './i18n';
+
+/**
+ * Scrollable chat view of the conversation turns, with a box for typed
+ * messages.
+ *
+ * @fires send-text - `detail` is the message to send.
+ */
+@customElement('gdm-transcript-panel')
+export class GdmTranscriptPanel extends LitElement {
+  @property({attribute: false}) turns: readonly Turn[] = [];
+  /** Whether typed messages can be sent right now. */
+  @property({type: Boolean}) canSend = false;
+  /** Language of the labels and the timestamps. */
+  @property() locale: Locale = 'en-IN';
+
+  @query('.log') private log!: HTMLElement;
+  @query('input') private input!: HTMLInputElement;
+
+  // Only follow new messages if the reader hasn't scrolled up.
+  private stickToBottom = true;
+
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      color: white;
+      font: 14px/1.4 system-ui, sans-serif;
+      background: rgba(20, 20, 20, 0.6);
+      border: 1px solid rgba(255, 255, 255, 0.15);
+      border-radius: 12px;
+      overflow: hidden;
+    }
+
+    .log {
+      flex: 1;
+      overflow-y: auto;
+      padding: 12px;
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+    }
+
+    .empty {
+      opacity: 0.5;
+      text-align: center;
+      margin: auto;
+    }
+
+    .turn {
+      max-width: 85%;
+      padding: 6px 10px;
+      border-radius: 10px;
+      background: rgba(255, 255, 255, 0.08);
+      align-self: flex-start;
+
+      &.user {
+        align-self: flex-end;
+        background: rgba(74, 141, 59, 0.35);
+      }
+
+      &.partial .text {
+        opacity: 0.7;
+      }
+    }
+
+    .meta {
+      font-size: 11px;
+      opacity: 0.6;
+      display: flex;
+      gap: 6px;
+    }
+
+    .interrupted {
+      color: #ff9a9a;
+    }
+
+    form {
+      display: flex;
+      gap: 6px;
+      padding: 8px;
+      border-top: 1px solid rgba(255, 255, 255, 0.15);
+    }
+
+    input,
+    button {
+      font: inherit;
+      color: inherit;
+      background: rgba(255, 255, 255, 0.08);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      padding: 6px 10px;
+    }
+
+    input {
+      flex: 1;
+      min-width: 0;
+    }
+  `;
+
+  private get strings() {
+    return messages(this.locale);
+  }
+
+  private onScroll() {
+    const {scrollTop, scrollHeight, clientHeight} = this.log;
+    this.stickToBottom = scrollHeight - scrollTop - clientHeight < 24;
+  }
+
+  private onSubmit(e: Event) {
+    e.preventDefault();
+    const text = this.input.value.trim();
+    if (!text || !this.canSend) return;
+    this.dispatchEvent(new CustomEvent('send-text', {detail: text, bubbles: true}));
+    this.input.value = '';
+    this.stickToBottom = true;
+  }
+
+  protected updated() {
+    if (this.stickToBottom) this.log.scrollTop = this.log.scrollHeight;
+  }
+
+  private renderTurn(turn: Turn) {
+    const t = this.strings;
+    return html`
+      <div
+        class="turn ${turn.speaker} ${turn.final ? '' : 'partial'}"
+        aria-busy=${turn.final ? 'false' : 'true'}>
+        <div class="meta">
+          <span>${turn.speaker === 'user' ? t.you : t.assistantLabel}</span>
+          <time datetime=${turn.startedAt.toISOString()}>
+            ${turn.startedAt.toLocaleTimeString(this.locale)}
+          </time>
+          ${turn.interrupted
+            ? html`<span class="interrupted">${t.interrupted}</span>`
+            : ''}
+        </div>
+        <div class="text">${turn.text}</div>
+      </div>
+    `;
+  }
+
+  render() {
+    const t = this.strings;
+    return html`
+      <div
+        class="log"
+        role="log"
+        aria-live="polite"
+        aria-label=${t.conversation}
+        @scroll=${this.onScroll}>
+        ${this.turns.length
+          ? repeat(this.turns, (t) => t.id, (t) => this.renderTurn(t))
+          : html`<div class="empty">${t.transcriptEmpty}</div>`}
+      </div>
+      <form @submit=${this.onSubmit}>
+        <input
+          aria-label=${t.typeMessage}
+          placeholder=${this.canSend ? t.typeMessage : t.notConnected}
+          ?disabled=${!this.canSend} />
+        <button type="submit" ?disabled=${!this.canSend}>${t.send}</button>
+      </form>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-transcript-panel': GdmTranscriptPanel;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  Content,
+  createUserContent,
+  LiveCallbacks,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+  PartListUnion,
+} from '@google/genai';
+
+export interface LiveTransportParams {
+  model: string;
+  config?: LiveConnectConfig;
+  callbacks: LiveCallbacks;
+}
+
+/** An open Live session; the subset of the SDK's `Session` we use. */
+export interface LiveTransportSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+/**
+ * Opens Live sessions. Resolves once the session can take input; server
+ * messages and the close arrive through `callbacks`.
+ */
+export interface LiveTransport {
+  connect(params: LiveTransportParams): Promise<LiveTransportSession>;
+}
+
+/** `BidiGenerateContent` setup message for `model` and `config`. */
+export function setupMessage(model: string, config: LiveConnectConfig = {}) {
+  const {
+    responseModalities,
+    temperature,
+    topP,
+    topK,
+    maxOutputTokens,
+    mediaResolution,
+    seed,
+    speechConfig,
+    systemInstruction,
+    ...rest
+  } = config;
+  return {
+    setup: {
+      model: model.startsWith('models/') ? model : `models/${model}`,
+      generationConfig: {
+        responseModalities,
+        temperature,
+        topP,
+        topK,
+        maxOutputTokens,
+        mediaResolution,
+        seed,
+        speechConfig,
+      },
+      systemInstruction:
+        typeof systemInstruction === 'string'
+          ? createUserContent(systemInstruction)
+          : systemInstruction,
+      tools: rest.tools,
+      sessionResumption: rest.sessionResumption,
+      inputAudioTranscription: rest.inputAudioTranscription,
+      outputAudioTranscription: rest.outputAudioTranscription,
+      realtimeInputConfig: rest.realtimeInputConfig,
+      contextWindowCompression: rest.contextWindowCompression,
+    },
+  };
+}
+
+function isContent(value: unknown): value is Content {
+  return typeof value === 'object' && value !== null && 'parts' in value;
+}
+
+function toContents(turns: LiveSendClientContentParameters['turns']) {
+  if (turns === undefined) return undefined;
+  const list: unknown[] = Array.isArray(turns) ? turns : [turns];
+  // A list of Content goes as is; text and parts make one user turn.
+  return list.every(isContent) ? list : [createUserContent(turns as PartListUnion)];
+}
+
+/**
+ * Speaks the Live API wire protocol over a plain WebSocket, to a server we
+ * choose: a local mock server, or a proxy that holds the API key. `url` is
+ * read on every connect, so it can carry a fresh token.
+ */
+export class WebSocketTransport implements LiveTransport {
+  constructor(private url: string | (() => string | Promise<string>)) {}
+
+  async connect({model, config, callbacks}: LiveTransportParams) {
+    const url = typeof this.url === 'string' ? this.url : await this.url();
+    const ws = new WebSocket(url);
+    const send = (message: unknown) => ws.send(JSON.stringify(message));
+
+    await new Promise<void>((resolve, reject) => {
+      ws.onopen = () => resolve();
+      ws.onclose = (e) => reject(new Error(e.reason || `WebSocket closed (code ${e.code})`));
+    });
+
+    ws.onmessage = async (e: MessageEvent<string | Blob>) => {
+      const text = typeof e.data === 'string' ? e.data : await e.data.text();
+      // The SDK's class, so getters like `text` work.
+      callbacks.onmessage(Object.assign(new LiveServerMessage(), JSON.parse(text)));
+    };
+    ws.onerror = (e) => callbacks.onerror?.(e as ErrorEvent);
+    ws.onclose = (e) => callbacks.onclose?.(e);
+
+    send(setupMessage(model, config));
+    callbacks.onopen?.();
+
+    return {
+      sendRealtimeInput: ({media, activityStart, activityEnd}) =>
+        send({realtimeInput: {mediaChunks: [media], activityStart, activityEnd}}),
+      sendClientContent: ({turns, turnComplete = true}) =>
+        send({clientContent: {turns: toContents(turns), turnComplete}}),
+      sendToolResponse: ({functionResponses}) =>
+        send({toolResponse: {functionResponses: [functionResponses].flat()}}),
+      close: () => ws.close(),
+    } satisfies LiveTransportSession;
+  }
+}
+
+/**
+ * A socket URL from the companion server (`server/live-proxy.ts`), which
+ * holds the API key. `baseUrl` defaults to this page's origin.
+ */
+export async function proxySocketUrl(baseUrl = '') {
+  const base = new URL(baseUrl || '/', location.href);
+  const res = await fetch(new URL('api/live/token', base), {method: 'POST'});
+  if (!res.ok) {
+    const {error} = await res.json().catch(() => ({error: res.statusText}));
+    throw new Error(`Could not get a session token: ${error}`);
+  }
+  const {token} = await res.json();
+  const url = new URL('api/live/socket', base);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  url.searchParams.set('token', token);
+  return url.toString();
+}
@@ -2,72 +2,265 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import {Blob} from '@google/genai';
+import type {Blob} from '@google/genai';
 
-function encode(bytes) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
+/*
+ * PCM codec for the Live API: base64 <-> bytes, float <-> 16-bit samples,
+ * (de)interleaving and resampling. Conversions write into caller-provided
+ * arrays where possible so the audio hot paths don't allocate per call.
+ * Samples are little-endian, as on every platform we run on.
+ */
+
+// Stay well under engines' argument-count limits for fromCharCode.apply.
+const CHUNK = 0x8000;
+
+type Base64Native = {toBase64?(): string};
+type Base64NativeCtor = {fromBase64?(base64: string): Uint8Array};
+
+/** View any typed array or buffer as bytes without copying. */
+function bytesOf(data: ArrayBufferView | ArrayBuffer) {
+  return data instanceof ArrayBuffer
+    ? new Uint8Array(data)
+    : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
 }
 
-function decode(base64) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+function encode(data: ArrayBufferView | ArrayBuffer): string {
+  const bytes = bytesOf(data);
+  const native = (bytes as Base64Native).toBase64;
+  if (native) return native.call(bytes);
+
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    parts.push(String.fromCharCode.apply(null, bytes.subarray(i, i + CHUNK)));
   }
+  return btoa(parts.join(''));
+}
+
+function decode(base64: string): Uint8Array {
+  const native = (Uint8Array as Base64NativeCtor).fromBase64;
+  if (native) return native(base64);
+
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
   return bytes;
 }
 
-function createBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // convert float32 -1 to 1 to int16 -32768 to 32767
-    int16[i] = data[i] * 32768;
+export interface Int16Options {
+  /** Add triangular dither of one LSB before rounding. */
+  dither?: boolean;
+}
+
+/**
+ * Float samples (-1..1) to 16-bit, clamping out-of-range input so a
+ * full-scale +1.0 doesn't wrap to -32768.
+ */
+function floatToInt16(
+  src: Float32Array,
+  dest = new Int16Array(src.length),
+  {dither = false}: Int16Options = {},
+) {
+  const n = Math.min(src.length, dest.length);
+  for (let i = 0; i < n; i++) {
+    let s = src[i] * 32767;
+    if (dither) s += Math.random() - Math.random();
+    dest[i] = s >= 32767 ? 32767 : s <= -32768 ? -32768 : Math.round(s);
   }
+  return dest;
+}
 
+function int16ToFloat(src: Int16Array, dest = new Float32Array(src.length)) {
+  const n = Math.min(src.length, dest.length);
+  for (let i = 0; i < n; i++) dest[i] = src[i] / 32768;
+  return dest;
+}
+
+/** 16-bit samples in `bytes`, copying only if the view is misaligned. */
+function int16View(bytes: Uint8Array) {
+  const length = bytes.byteLength >> 1;
+  if (bytes.byteOffset % 2 === 0) return new Int16Array(bytes.buffer, bytes.byteOffset, length);
+  return new Int16Array(bytes.slice(0, length * 2).buffer);
+}
+
+/** Split interleaved 16-bit frames into one float array per channel. */
+function deinterleave(
+  src: Int16Array,
+  numChannels: number,
+  out: Float32Array[] = Array.from(
+    {length: numChannels},
+    () => new Float32Array(Math.floor(src.length / numChannels)),
+  ),
+) {
+  const frames = Math.min(Math.floor(src.length / numChannels), out[0]?.length ?? 0);
+  for (let c = 0; c < numChannels; c++) {
+    const channel = out[c];
+    for (let i = 0, j = c; i < frames; i++, j += numChannels) channel[i] = src[j] / 32768;
+  }
+  return out;
+}
+
+/** Interleave float channels into one array, frame by frame. */
+function interleave(channels: Float32Array[], out?: Float32Array) {
+  const numChannels = channels.length;
+  const frames = channels[0]?.length ?? 0;
+  out ??= new Float32Array(frames * numChannels);
+  for (let c = 0; c < numChannels; c++) {
+    const channel = channels[c];
+    for (let i = 0, j = c; i < frames; i++, j += numChannels) out[j] = channel[i];
+  }
+  return out;
+}
+
+// Reused by createBlob: the samples are base64-encoded before it returns.
+let scratch = new Int16Array(0);
+
+function createBlob(data: Float32Array, sampleRate = 16000, options?: Int16Options): Blob {
+  if (scratch.length < data.length) scratch = new Int16Array(data.length);
+  const int16 = floatToInt16(data, scratch.subarray(0, data.length), options);
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(int16),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
 
 async function decodeAudioData(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const buffer = ctx.createBuffer(
-    numChannels,
-    data.length / 2 / numChannels,
-    sampleRate,
-  );
-
-  const dataInt16 = new Int16Array(data.buffer);
-  const l = dataInt16.length;
-  const dataFloat32 = new Float32Array(l);
-  for (let i = 0; i < l; i++) {
-    dataFloat32[i] = dataInt16[i] / 32768.0;
-  }
-  // Extract interleaved channels
-  if (numChannels === 0) {
-    buffer.copyToChannel(dataFloat32, 0);
+  const samples = int16View(data);
+  const frames = Math.floor(samples.length / numChannels);
+  const buffer = ctx.createBuffer(numChannels, frames, sampleRate);
+  // Write straight into the buffer's channels.
+  const channels = Array.from({length: numChannels}, (_, c) => buffer.getChannelData(c));
+  if (numChannels === 1) {
+    int16ToFloat(samples, channels[0]);
   } else {
-    for (let i = 0; i < numChannels; i++) {
-      const channel = dataFloat32.filter(
-        (_, index) => index % numChannels === i,
-      );
-      buffer.copyToChannel(channel, i);
+    deinterleave(samples, numChannels, channels);
+  }
+  return buffer;
+}
+
+/** Second-order low-pass section (Audio EQ Cookbook), keeping its state between blocks. */
+class LowPass {
+  private b0: number;
+  private b1: number;
+  private b2: number;
+  private a1: number;
+  private a2: number;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(cutoff: number, sampleRate: number, q: number) {
+    const w = (2 * Math.PI * cutoff) / sampleRate;
+    const cos = Math.cos(w);
+    const alpha = Math.sin(w) / (2 * q);
+    const a0 = 1 + alpha;
+    this.b0 = (1 - cos) / 2 / a0;
+    this.b1 = (1 - cos) / a0;
+    this.b2 = this.b0;
+    this.a1 = (-2 * cos) / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  /** Filter `input` into `output`, which may be the same array. */
+  process(input: Float32Array, output: Float32Array) {
+    let {x1, x2, y1, y2} = this;
+    for (let i = 0; i < input.length; i++) {
+      const x = input[i];
+      const y = this.b0 * x + this.b1 * x1 + this.b2 * x2 - this.a1 * y1 - this.a2 * y2;
+      x2 = x1;
+      x1 = x;
+      y2 = y1;
+      y1 = y;
+      output[i] = y;
     }
+    this.x1 = x1;
+    this.x2 = x2;
+    this.y1 = y1;
+    this.y2 = y2;
   }
 
-  return buffer;
+  reset() {
+    this.x1 = this.x2 = this.y1 = this.y2 = 0;
+  }
+}
+
+// Q of the two sections of a 4th-order Butterworth filter.
+const BUTTERWORTH_Q = [0.5412, 1.3066];
+
+/**
+ * Linear-interpolation resampler for a continuous stream; keeps its phase
+ * between blocks so block boundaries don't click. When downsampling, a
+ * low-pass at 7/16 of the target rate (7 kHz for 16 kHz) first removes what
+ * would otherwise alias into the speech band.
+ */
+class StreamingResampler {
+  private ratio: number;
+  // Fractional read position into the current block, and the last sample of
+  // the previous block for interpolating across the boundary.
+  private position = 0;
+  private previous = 0;
+  private filters: LowPass[] = [];
+  private filtered = new Float32Array(0);
+
+  constructor(readonly fromRate: number, readonly toRate: number) {
+    this.ratio = fromRate / toRate;
+    if (fromRate > toRate) {
+      this.filters = BUTTERWORTH_Q.map((q) => new LowPass((toRate * 7) / 16, fromRate, q));
+    }
+  }
+
+  /** Upper bound of the samples `process` writes for `inputLength` samples. */
+  maxOutput(inputLength: number) {
+    return Math.ceil(inputLength / this.ratio) + 1;
+  }
+
+  /** Resample `input` into `output`; returns the number of samples written. */
+  process(input: Float32Array, output: Float32Array) {
+    if (!input.length) return 0;
+    if (this.filters.length) input = this.lowPass(input);
+    let pos = this.position;
+    let n = 0;
+    while (pos < input.length - 1 && n < output.length) {
+      const i = Math.floor(pos);
+      const a = i < 0 ? this.previous : input[i];
+      const b = input[i + 1];
+      output[n++] = a + (b - a) * (pos - i);
+      pos += this.ratio;
+    }
+    this.position = pos - input.length;
+    this.previous = input[input.length - 1];
+    return n;
+  }
+
+  reset() {
+    this.position = 0;
+    this.previous = 0;
+    for (const filter of this.filters) filter.reset();
+  }
+
+  private lowPass(input: Float32Array) {
+    if (this.filtered.length < input.length) this.filtered = new Float32Array(input.length);
+    const out = this.filtered.subarray(0, input.length);
+    this.filters[0].process(input, out);
+    for (const filter of this.filters.slice(1)) filter.process(out, out);
+    return out;
+  }
 }
 
-export {createBlob, decode, decodeAudioData, encode};
+export {
+  createBlob,
+  decode,
+  decodeAudioData,
+  deinterleave,
+  encode,
+  floatToInt16,
+  int16ToFloat,
+  int16View,
+  interleave,
+  StreamingResampler,
+};
@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface VadOptions {
+  /** Rate of the frames passed to `process`. */
+  sampleRate?: number;
+  /** Frames quieter than this (dBFS) are never speech. */
+  thresholdDb?: number;
+  /** How far above the tracked noise floor speech must be, in dB. */
+  marginDb?: number;
+  /** Share of the energy that must fall in the 300–3400 Hz voice band. */
+  minVoiceRatio?: number;
+  /** Spectral flatness above this (0 tone .. 1 white noise) is noise. */
+  maxFlatness?: number;
+  /** Speech must last this long before `speechstart` fires. */
+  attackMs?: number;
+  /** Silence must last this long before `speechend` fires. */
+  hangoverMs?: number;
+}
+
+const DEFAULTS: Required<VadOptions> = {
+  sampleRate: 16000,
+  thresholdDb: -50,
+  marginDb: 12,
+  minVoiceRatio: 0.5,
+  maxFlatness: 0.45,
+  attackMs: 90,
+  hangoverMs: 500,
+};
+
+const FFT_SIZE = 512;
+const VOICE_BAND: [number, number] = [300, 3400];
+
+/** In-place radix-2 FFT of `re` + i·`im`; the length must be a power of two. */
+export function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(step * k);
+        const wi = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * Client-side voice activity detection on microphone frames. A frame counts
+ * as speech when it is loud enough, both absolutely and against a slowly
+ * tracked noise floor, and its spectrum looks voiced: energy concentrated
+ * in the voice band and not flat like fans or hiss.
+ *
+ * @fires speechstart - Speech began, `attackMs` ago.
+ * @fires speechend - Speech stopped, `hangoverMs` ago.
+ */
+export class VoiceActivityDetector extends EventTarget {
+  private options: Required<VadOptions>;
+  private re = new Float32Array(FFT_SIZE);
+  private im = new Float32Array(FFT_SIZE);
+  private window = Float32Array.from(
+    {length: FFT_SIZE},
+    (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1)),
+  );
+  private noiseFloorDb = -70;
+  private speechMs = 0;
+  private silenceMs = 0;
+  private _speaking = false;
+  private _levelDb = -100;
+
+  constructor(options: VadOptions = {}) {
+    super();
+    this.options = {...DEFAULTS, ...options};
+  }
+
+  get speaking() {
+    return this._speaking;
+  }
+
+  /** How long after speech stops `speechend` fires. */
+  get hangoverMs() {
+    return this.options.hangoverMs;
+  }
+
+  /** Level of the last frame in dBFS. */
+  get levelDb() {
+    return this._levelDb;
+  }
+
+  configure(options: VadOptions) {
+    this.options = {...this.options, ...options};
+  }
+
+  /** Feed one frame; returns whether the user is speaking after it. */
+  process(frame: Float32Array) {
+    const frameMs = (frame.length / this.options.sampleRate) * 1000;
+    const voiced = this.isVoiced(frame);
+
+    if (voiced) {
+      this.speechMs += frameMs;
+      this.silenceMs = 0;
+    } else {
+      this.silenceMs += frameMs;
+      if (!this._speaking) this.speechMs = 0;
+    }
+
+    if (!this._speaking && this.speechMs >= this.options.attackMs) {
+      this._speaking = true;
+      this.dispatchEvent(new Event('speechstart'));
+    } else if (this._speaking && this.silenceMs >= this.options.hangoverMs) {
+      this._speaking = false;
+      this.speechMs = 0;
+      this.dispatchEvent(new Event('speechend'));
+    }
+    return this._speaking;
+  }
+
+  /** Forget the noise floor and any speech in progress. */
+  reset() {
+    const wasSpeaking = this._speaking;
+    this.noiseFloorDb = -70;
+    this.speechMs = this.silenceMs = 0;
+    this._speaking = false;
+    this._levelDb = -100;
+    if (wasSpeaking) this.dispatchEvent(new Event('speechend'));
+  }
+
+  private isVoiced(frame: Float32Array) {
+    const {sampleRate, thresholdDb, marginDb, minVoiceRatio, maxFlatness} = this.options;
+    const n = Math.min(frame.length, FFT_SIZE);
+
+    let energy = 0;
+    for (let i = 0; i < n; i++) energy += frame[i] * frame[i];
+    const db = (this._levelDb = 10 * Math.log10(energy / Math.max(n, 1) + 1e-10));
+
+    // The floor follows quiet frames quickly and loud ones very slowly, so
+    // steady background noise raises it but a sentence doesn't.
+    const rate = db < this.noiseFloorDb ? 0.2 : 0.005;
+    this.noiseFloorDb += (db - this.noiseFloorDb) * rate;
+
+    if (db < thresholdDb || db < this.noiseFloorDb + marginDb) return false;
+
+    this.re.fill(0);
+    this.im.fill(0);
+    for (let i = 0; i < n; i++) this.re[i] = frame[i] * this.window[i];
+    fft(this.re, this.im);
+
+    const binHz = sampleRate / FFT_SIZE;
+    const from = Math.floor(VOICE_BAND[0] / binHz);
+    const to = Math.ceil(VOICE_BAND[1] / binHz);
+    let total = 0;
+    let voice = 0;
+    let logSum = 0;
+    const bins = FFT_SIZE / 2;
+    for (let k = 1; k < bins; k++) {
+      const power = this.re[k] * this.re[k] + this.im[k] * this.im[k] + 1e-12;
+      total += power;
+      if (k >= from && k < to) voice += power;
+      logSum += Math.log(power);
+    }
+    const flatness = Math.exp(logSum / (bins - 1)) / (total / (bins - 1));
+    return voice / total >= minVoiceRatio && flatness <= maxFlatness;
+  }
+}
+
+/**
+ * Holds back silent frames and releases them with a short pre-roll when
+ * speech starts, so the first syllable still reaches the server.
+ */
+export class SilenceGate {
+  private held: Float32Array[] = [];
+  private heldMs = 0;
+
+  constructor(private preRollMs = 300, private sampleRate = 16000) {}
+
+  /** Frames to send now for `frame`, given whether the user is speaking. */
+  push(frame: Float32Array, speaking: boolean): Float32Array[] {
+    if (speaking) {
+      const out = this.held.length ? [...this.held, frame] : [frame];
+      this.clear();
+      return out;
+    }
+    // Frames may be transferred buffers from the worklet; keep our own copy.
+    this.held.push(frame.slice());
+    this.heldMs += (frame.length / this.sampleRate) * 1000;
+    while (this.held.length > 1 && this.heldMs - this.msOf(this.held[0]) >= this.preRollMs) {
+      this.heldMs -= this.msOf(this.held.shift()!);
+    }
+    return [];
+  }
+
+  clear() {
+    this.held = [];
+    this.heldMs = 0;
+  }
+
+  private msOf(frame: Float32Array) {
+    return (frame.length / this.sampleRate) * 1000;
+  }
+}
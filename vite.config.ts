@@ -4,14 +4,41 @@ import { defineConfig, loadEnv } from 'vite';
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // Never define GEMINI_API_KEY here: it would ship in the bundle. The
+      // key lives with server/live-proxy.ts.
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.HELPONE_DIRECTORY_URL': JSON.stringify(env.HELPONE_DIRECTORY_URL),
+        'process.env.LIVE_SERVER_URL': JSON.stringify(env.LIVE_SERVER_URL),
+        'process.env.LIVE_PROXY_URL': JSON.stringify(env.LIVE_PROXY_URL),
+        'process.env.METRICS_URL': JSON.stringify(env.METRICS_URL),
+        'process.env.METRICS_SAMPLE_RATE': JSON.stringify(env.METRICS_SAMPLE_RATE),
+        'process.env.HELPONE_BOOKING_URL': JSON.stringify(env.HELPONE_BOOKING_URL)
+      },
+      server: {
+        proxy: {
+          '/api/live': {
+            target: env.LIVE_PROXY_TARGET || 'http://localhost:8788',
+            ws: true
+          }
+        }
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      // `--mode widget` builds the single script partners embed; see widget.ts.
+      base: mode === 'widget' ? './' : undefined,
+      build: mode === 'widget' ? {
+        lib: {
+          entry: path.resolve(__dirname, 'widget.ts'),
+          name: 'HelpOne',
+          formats: ['iife'],
+          fileName: () => 'helpone-widget.js'
+        },
+        // Goes next to the app build, which already has the public files.
+        emptyOutDir: false,
+        copyPublicDir: false
+      } : undefined
     };
 });
@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {fft, SilenceGate} from './vad';
+
+/** What we ask people to say; the spotter matches whatever they enrolled. */
+export const WAKE_PHRASE = 'Hey Helpyy';
+
+/** MFCC frames of one utterance: one 12-coefficient vector per 10 ms. */
+export type WakeTemplate = number[][];
+
+export interface WakeWordOptions {
+  sampleRate?: number;
+  /**
+   * Largest DTW distance that still counts as the phrase. By default it is
+   * derived from how far the enrolled samples are from each other.
+   */
+  threshold?: number;
+  /** Utterances outside this range (ms) can't be the phrase. */
+  minMs?: number;
+  maxMs?: number;
+}
+
+const WINDOW = 400; // 25 ms at 16 kHz
+const HOP = 160; // 10 ms
+const FFT_SIZE = 512;
+const MEL_BANDS = 26;
+const COEFFS = 12;
+// Used with a single enrolled sample, where there is no spread to measure.
+const DEFAULT_THRESHOLD = 5;
+
+const STORAGE_KEY = 'helpyy.wakeWord';
+
+export function loadWakeTemplates(): WakeTemplate[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function saveWakeTemplates(templates: WakeTemplate[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+}
+
+const hz2mel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const mel2hz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+/** Triangular mel filters over the bins of a FFT_SIZE spectrum. */
+function melFilters(sampleRate: number) {
+  const low = hz2mel(60);
+  const high = hz2mel(Math.min(7600, sampleRate / 2));
+  const edges = Array.from({length: MEL_BANDS + 2}, (_, i) =>
+    Math.floor((mel2hz(low + ((high - low) * i) / (MEL_BANDS + 1)) * FFT_SIZE) / sampleRate),
+  );
+  return Array.from({length: MEL_BANDS}, (_, m) => {
+    const [a, b, c] = [edges[m], edges[m + 1], edges[m + 2]];
+    const weights = new Float32Array(FFT_SIZE / 2 + 1);
+    for (let k = a; k < b; k++) weights[k] = (k - a) / Math.max(b - a, 1);
+    for (let k = b; k < c; k++) weights[k] = (c - k) / Math.max(c - b, 1);
+    return weights;
+  });
+}
+
+/**
+ * MFCCs of `samples`, without c0 and mean-normalized, so loudness and the
+ * microphone's colouring matter less. Quiet frames at either end go.
+ */
+function mfcc(samples: Float32Array, filters: Float32Array[]): WakeTemplate {
+  const re = new Float32Array(FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+  const frames: number[][] = [];
+  const energies: number[] = [];
+  const logMel = new Float32Array(MEL_BANDS);
+
+  for (let start = 0; start + WINDOW <= samples.length; start += HOP) {
+    re.fill(0);
+    im.fill(0);
+    let energy = 0;
+    for (let i = 0; i < WINDOW; i++) {
+      const s = samples[start + i];
+      energy += s * s;
+      re[i] = s * (0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (WINDOW - 1)));
+    }
+    fft(re, im);
+    for (let m = 0; m < MEL_BANDS; m++) {
+      let sum = 0;
+      const w = filters[m];
+      for (let k = 0; k <= FFT_SIZE / 2; k++) {
+        if (w[k]) sum += w[k] * (re[k] * re[k] + im[k] * im[k]);
+      }
+      logMel[m] = Math.log(sum + 1e-10);
+    }
+    const coeffs: number[] = [];
+    for (let c = 1; c <= COEFFS; c++) {
+      let sum = 0;
+      for (let m = 0; m < MEL_BANDS; m++) {
+        sum += logMel[m] * Math.cos((Math.PI * c * (m + 0.5)) / MEL_BANDS);
+      }
+      coeffs.push(sum);
+    }
+    frames.push(coeffs);
+    energies.push(10 * Math.log10(energy / WINDOW + 1e-10));
+  }
+
+  // Trim to the frames within 30 dB of the loudest.
+  const floor = Math.max(...energies) - 30;
+  let from = energies.findIndex((e) => e >= floor);
+  let to = energies.length - [...energies].reverse().findIndex((e) => e >= floor);
+  if (from < 0) [from, to] = [0, 0];
+  const kept = frames.slice(from, to);
+
+  const mean = new Array(COEFFS).fill(0);
+  for (const f of kept) f.forEach((v, c) => (mean[c] += v / kept.length));
+  return kept.map((f) => f.map((v, c) => v - mean[c]));
+}
+
+/** Dynamic time warping distance, normalized by the two lengths. */
+function dtw(a: WakeTemplate, b: WakeTemplate) {
+  if (!a.length || !b.length) return Infinity;
+  let prev = new Float64Array(b.length + 1).fill(Infinity);
+  let row = new Float64Array(b.length + 1);
+  prev[0] = 0;
+  for (let i = 1; i <= a.length; i++) {
+    row.fill(Infinity);
+    for (let j = 1; j <= b.length; j++) {
+      let d = 0;
+      for (let c = 0; c < COEFFS; c++) d += (a[i - 1][c] - b[j - 1][c]) ** 2;
+      row[j] = Math.sqrt(d) + Math.min(prev[j], row[j - 1], prev[j - 1]);
+    }
+    [prev, row] = [row, prev];
+  }
+  return prev[b.length] / (a.length + b.length);
+}
+
+/**
+ * On-device wake phrase spotter. People enroll a few samples of the phrase;
+ * each utterance the VAD cuts out afterwards is compared with them by DTW
+ * over MFCCs. Nothing leaves the device until the phrase is heard.
+ *
+ * @fires detected - The wake phrase was heard.
+ */
+export class WakeWordSpotter extends EventTarget {
+  private options: Required<Omit<WakeWordOptions, 'threshold'>> & {threshold?: number};
+  private filters: Float32Array[];
+  // Keeps a little audio from before the VAD's attack.
+  private gate: SilenceGate;
+  private segment: Float32Array[] = [];
+  private enrolling?: {resolve: (template: WakeTemplate) => void; reject: (e: Error) => void};
+  private _templates: WakeTemplate[];
+  private threshold = DEFAULT_THRESHOLD;
+
+  constructor(templates: WakeTemplate[] = [], options: WakeWordOptions = {}) {
+    super();
+    this.options = {sampleRate: 16000, minMs: 300, maxMs: 2500, ...options};
+    this.filters = melFilters(this.options.sampleRate);
+    this.gate = new SilenceGate(200, this.options.sampleRate);
+    this.templates = templates;
+  }
+
+  get templates(): readonly WakeTemplate[] {
+    return this._templates;
+  }
+
+  set templates(templates: readonly WakeTemplate[]) {
+    this._templates = [...templates];
+    this.threshold = this.options.threshold ?? this.spreadThreshold();
+  }
+
+  /** Whether any samples are enrolled. */
+  get ready() {
+    return this._templates.length > 0;
+  }
+
+  /** Feed a mic frame with the VAD's verdict on it. */
+  push(frame: Float32Array, speaking: boolean) {
+    for (const f of this.gate.push(frame, speaking)) this.segment.push(f.slice());
+    if (speaking || !this.segment.length) return;
+
+    const length = this.segment.reduce((n, f) => n + f.length, 0);
+    const samples = new Float32Array(length);
+    let offset = 0;
+    for (const f of this.segment) {
+      samples.set(f, offset);
+      offset += f.length;
+    }
+    this.segment = [];
+
+    const ms = (length / this.options.sampleRate) * 1000;
+    if (ms < this.options.minMs || ms > this.options.maxMs) return;
+    const features = mfcc(samples, this.filters);
+
+    if (this.enrolling) {
+      this.enrolling.resolve(features);
+      this.enrolling = undefined;
+    } else if (this.matches(features)) {
+      this.dispatchEvent(new Event('detected'));
+    }
+  }
+
+  /** Take the next utterance as another sample of the phrase. */
+  enroll() {
+    return new Promise<void>((resolve, reject) => {
+      this.enrolling = {
+        resolve: (template) => {
+          this.templates = [...this._templates, template];
+          resolve();
+        },
+        reject,
+      };
+    });
+  }
+
+  /** Drop a partly heard utterance, e.g. when the mic stops; cancels `enroll`. */
+  reset() {
+    this.gate.clear();
+    this.segment = [];
+    this.enrolling?.reject(new Error('Enrollment cancelled'));
+    this.enrolling = undefined;
+  }
+
+  private matches(features: WakeTemplate) {
+    return this._templates.some((t) => dtw(features, t) <= this.threshold);
+  }
+
+  // Samples of the same phrase sit this close to each other; allow a bit more.
+  private spreadThreshold() {
+    let spread = 0;
+    for (let i = 0; i < this._templates.length; i++) {
+      for (let j = i + 1; j < this._templates.length; j++) {
+        spread = Math.max(spread, dtw(this._templates[i], this._templates[j]));
+      }
+    }
+    return spread ? spread * 1.25 : DEFAULT_THRESHOLD;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Entry of the embeddable widget (`npm run build:widget`): one script that
+ * defines `<gdm-live-audio>`. Partner pages add
+ *
+ *   <script src="https://helpone.example/helpone-widget.js"></script>
+ *   <gdm-live-audio position="bubble" profile="helpone-pune"></gdm-live-audio>
+ *
+ * The mic worklet loads from next to the script, and so do profiles, the
+ * avatar and the live proxy unless `base-url` says otherwise; the proxy's
+ * ALLOWED_ORIGINS must list the partner's origin.
+ */
+import {GdmLiveAudio} from './index';
+
+// Not `new URL('.', import.meta.url)`: Vite would bundle that as an asset.
+const scriptUrl = import.meta.url;
+GdmLiveAudio.defaultBaseUrl = new URL('.', scriptUrl).href;
+
+export {GdmLiveAudio};
+export type {WidgetPosition, WidgetTheme} from './index';